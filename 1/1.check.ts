@@ -0,0 +1,171 @@
+import { runChecks, verify, verifyThrows } from "../check/check"
+import { Affine2d, CoordinateSpace, Point2d, Polygon2d, Segment2d, Vector2d, WIDTH } from "./1"
+
+const verifyPoint = (actual: Point2d | Segment2d | null, x: number, y: number): void => {
+    verify(actual instanceof Point2d, `expected a point, got ${actual?.str() ?? "null"}`)
+    const point = actual as Point2d
+    verify(Math.abs(point.X - x) < 1e-6 && Math.abs(point.Y - y) < 1e-6, `expected Point2d(${x}, ${y}), got ${point.str()}`)
+}
+
+const verifySegment = (actual: Point2d | Segment2d | null, from: [number, number], to: [number, number]): void => {
+    verify(actual instanceof Segment2d, `expected a segment, got ${actual?.str() ?? "null"}`)
+    const segment = actual as Segment2d
+    verifyPoint(segment.start, ...from)
+    verifyPoint(segment.end, ...to)
+}
+
+export const checkGeometry = (): Promise<void> => {
+    const plane = CoordinateSpace.plane
+    const point = (x: number, y: number): Point2d => new Point2d(x, y, plane)
+    const segment = (x1: number, y1: number, x2: number, y2: number): Segment2d => new Segment2d(point(x1, y1), point(x2, y2))
+    const polygon = (...coords: [number, number][]): Polygon2d => new Polygon2d(coords.map(([x, y]) => point(x, y)))
+
+    return runChecks("geometry", {
+        "zero-length segment is degenerate": () => {
+            verify(segment(5, 5, 5, 5).isDegenerate(), "segment with equal ends must be degenerate")
+            verify(segment(5, 5, 5, 5).length === 0, "degenerate segment must have zero length")
+        },
+        "zero-length segment on another segment intersects at its point": () => {
+            verifyPoint(segment(5, 5, 5, 5).intersect(segment(0, 0, 10, 10)), 5, 5)
+            verifyPoint(segment(0, 0, 10, 10).intersect(segment(5, 5, 5, 5)), 5, 5)
+        },
+        "zero-length segment off another segment does not intersect": () => {
+            verify(segment(5, 6, 5, 6).intersect(segment(0, 0, 10, 10)) === null, "point off the segment must not intersect")
+        },
+        "two equal zero-length segments intersect at their point": () => {
+            verifyPoint(segment(3, 4, 3, 4).intersect(segment(3, 4, 3, 4)), 3, 4)
+        },
+        "parallel segments do not intersect": () => {
+            verify(segment(0, 0, 10, 0).intersect(segment(0, 1, 10, 1)) === null, "parallel segments must not intersect")
+        },
+        "overlapping collinear segments intersect in a segment": () => {
+            verifySegment(segment(0, 0, 100, 100).intersect(segment(50, 50, 150, 150)), [50, 50], [100, 100])
+            verifySegment(segment(0, 0, 100, 0).intersect(segment(80, 0, 20, 0)), [20, 0], [80, 0])
+        },
+        "collinear segments touching at an end intersect in a point": () => {
+            verifyPoint(segment(0, 0, 10, 0).intersect(segment(10, 0, 20, 0)), 10, 0)
+        },
+        "disjoint collinear segments do not intersect": () => {
+            verify(segment(0, 0, 10, 0).intersect(segment(11, 0, 20, 0)) === null, "separated collinear segments must not intersect")
+        },
+        "crossing segments intersect in a point": () => {
+            verifyPoint(segment(0, 0, 100, 100).intersect(segment(0, 100, 100, 0)), 50, 50)
+        },
+        "segment outside the canvas is clipped away": () => {
+            verify(segment(-100, -50, -10, -5).clip() === null, "segment left of the canvas must be clipped away")
+            verify(segment(-10, 900, 1200, 900).clip() === null, "horizontal segment below the canvas must be clipped away")
+            verify(segment(-50, 10, 10, -50).clip() === null, "segment crossing only the outside corner must be clipped away")
+        },
+        "segment crossing the canvas is clipped to its edges": () => {
+            verifySegment(segment(-100, 400, 1200, 400).clip(), [0, 400], [WIDTH, 400])
+        },
+        "collinear polygon has zero area": () => {
+            const line = polygon([0, 0], [10, 0], [20, 0])
+            verify(line.area === 0, `expected zero area, got ${line.area}`)
+            verify(line.isDegenerate(), "collinear polygon must be degenerate")
+            verify(!line.isConvex(), "degenerate polygon must not be convex")
+        },
+        "collinear polygon centroid is the centre of its edges": () => {
+            verifyPoint(polygon([0, 0], [10, 0], [20, 0]).centroid, 10, 0)
+            verifyPoint(polygon([0, 0], [0, 30]).centroid, 0, 15)
+        },
+        "single point polygon centroid is that point": () => {
+            verifyPoint(polygon([7, 3], [7, 3], [7, 3]).centroid, 7, 3)
+            verify(polygon([7, 3]).area === 0, "single point polygon must have zero area")
+        },
+        "empty polygon has no centroid": () => {
+            verifyThrows(() => polygon().centroid, "centroid of an empty polygon must throw")
+        },
+        "convex hull of collinear points is their end points": () => {
+            const hull = Polygon2d.convexHull([point(2, 2), point(0, 0), point(3, 3), point(1, 1)])
+            verify(hull.vertices.length === 2, `expected 2 hull vertices, got ${hull.str()}`)
+            verifyPoint(hull.vertices[0], 0, 0)
+            verifyPoint(hull.vertices[1], 3, 3)
+        },
+        "convex hull drops interior points": () => {
+            const hull = Polygon2d.convexHull([point(0, 0), point(10, 0), point(10, 10), point(0, 10), point(5, 5), point(5, 0)])
+            verify(hull.vertices.length === 4, `expected 4 hull vertices, got ${hull.str()}`)
+            verify(hull.area === 100, `expected hull area 100, got ${hull.area}`)
+        },
+        "rotation composed with its inverse is the identity": () => {
+            const rotation = Affine2d.rotation(0.7)
+            verify(rotation.then(rotation.invert()).eq(Affine2d.identity()), `expected identity, got ${rotation.then(rotation.invert()).str()}`)
+            const transform = Affine2d.shearing(0.3).scale(2, 0.5).rotate(1.2).translate(40, -15)
+            verify(transform.invert().then(transform).eq(Affine2d.identity()), "inverse before the transform must give the identity")
+        },
+        "affine equality is tolerant but not loose": () => {
+            verify(Affine2d.translation(0.1 + 0.2, 0).eq(Affine2d.translation(0.3, 0)), "rounding noise must not break equality")
+            verify(!Affine2d.identity().eq(Affine2d.translation(1e-3, 0)), "distinct transforms must not be equal")
+        },
+        "then applies transforms in order": () => {
+            verifyPoint(Affine2d.translation(10, 0).then(Affine2d.rotation(Math.PI / 2)).applyToPoint(point(1, 0)), 0, 11)
+            verifyPoint(Affine2d.rotation(Math.PI / 2).then(Affine2d.translation(10, 0)).applyToPoint(point(1, 0)), 10, 1)
+        },
+        "inverse maps transformed points back": () => {
+            const transform = Affine2d.scaling(3, 2).rotate(-0.4).translate(5, 8)
+            verifyPoint(transform.invert().applyToPoint(transform.applyToPoint(point(12, -7))), 12, -7)
+        },
+        "singular transform cannot be inverted": () => {
+            verifyThrows(() => Affine2d.scaling(0, 1).invert(), "inverting a zero scale must throw")
+            verifyThrows(() => new Affine2d(1, 2, 2, 4, 5, 6).invert(), "inverting linearly dependent columns must throw")
+        },
+        "translation moves points but not vectors": () => {
+            const translation = Affine2d.translation(5, 7)
+            verifyPoint(translation.applyToPoint(point(1, 2)), 6, 9)
+            const moved = translation.applyToVector(new Vector2d({ x: 1, y: 2 }))
+            verify(moved.eq(new Vector2d({ x: 1, y: 2 })), `translation must not change a vector, got ${moved.str()}`)
+            const scaled = Affine2d.scaling(2).translate(5, 7).applyToVector(new Vector2d({ x: 1, y: 2 }))
+            verify(scaled.eq(new Vector2d({ x: 2, y: 4 })), `expected Vector2d(2, 4), got ${scaled.str()}`)
+        },
+        "polygon outside the canvas is clipped away": () => {
+            const clipped = polygon([-50, -50], [-10, -50], [-10, -10]).clip()
+            verify(clipped.vertices.length === 0, `expected empty polygon, got ${clipped.str()}`)
+        },
+    })
+}
+
+const seededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+export const checkVectorLaws = (seed: number = 20240917, samples: number = 1000): Promise<void> => {
+    const random = seededRandom(seed)
+    const scalar = (): number => random() * 20 - 10
+    const vector = (): Vector2d => new Vector2d({ x: random() * 200 - 100, y: random() * 200 - 100 })
+    const tolerance = 1e-6
+    const near = (a: number, b: number): boolean => Math.abs(a - b) < tolerance * Math.max(1, Math.abs(a), Math.abs(b))
+
+    const laws: { [name: string]: (a: Vector2d, b: Vector2d, c: Vector2d, k: number) => boolean } = {
+        "a + b = b + a": (a, b) => a.add(b).eq(b.add(a), tolerance),
+        "(a + b) + c = a + (b + c)": (a, b, c) => a.add(b).add(c).eq(a.add(b.add(c)), tolerance),
+        "k(a + b) = ka + kb": (a, b, c, k) => a.add(b).multiply(k).eq(a.multiply(k).add(b.multiply(k)), tolerance),
+        "a . b = b . a": (a, b) => near(a.scalarProduct(b), b.scalarProduct(a)),
+        "a . (b + c) = a . b + a . c": (a, b, c) => near(a.scalarProduct(b.add(c)), a.scalarProduct(b) + a.scalarProduct(c)),
+        "|a + b| <= |a| + |b|": (a, b) => a.add(b).length <= a.length + b.length + tolerance,
+        "|rotate(a)| = |a|": (a, b, c, k) => near(a.rotate(k).length, a.length),
+        "angle(a, b) = |signedAngle(a, b)|": (a, b) => near(a.angleTo(b), Math.abs(a.signedAngleTo(b))),
+    }
+
+    const checks: { [name: string]: () => void } = {}
+    Object.keys(laws).forEach((name) => {
+        checks[name] = () => {
+            for (let i = 0; i < samples; i++) {
+                const [a, b, c, k] = [vector(), vector(), vector(), scalar()]
+                verify(laws[name](a, b, c, k), `counterexample #${i} (seed ${seed}): a=${a.str()}, b=${b.str()}, c=${c.str()}, k=${k}`)
+            }
+        }
+    })
+    return runChecks("vector laws", checks)
+}
+
+export const runLabChecks = async (): Promise<void> => {
+    await checkGeometry()
+    await checkVectorLaws()
+}
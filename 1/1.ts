@@ -1,43 +1,345 @@
 const WIDTH: number = 1000
 const HEIGHT: number = 800
+const EPSILON: number = 1e-9
 
-class Point2d {
-    private x: number
-    private y: number
+type Origin = "top-left" | "bottom-left"
+type OutOfRangePolicy = "throw" | "clamp" | "wrap"
 
-    constructor(X: number, Y: number) {
-        this.x = X
-        this.y = Y
+type CoordinateSpaceOptions = {
+    width: number
+    height: number
+    origin?: Origin
+    policy?: OutOfRangePolicy
+}
+
+class CoordinateSpace {
+    static readonly canvas: CoordinateSpace = new CoordinateSpace({ width: WIDTH, height: HEIGHT })
+    static readonly plane: CoordinateSpace = new CoordinateSpace({ width: Infinity, height: Infinity })
+
+    readonly width: number
+    readonly height: number
+    readonly origin: Origin
+    readonly policy: OutOfRangePolicy
+
+    constructor(options: CoordinateSpaceOptions) {
+        if (!(options.width > 0) || !(options.height > 0)) {
+            throw new Error("CoordinateSpace size must be positive")
+        }
+        this.width = options.width
+        this.height = options.height
+        this.origin = options.origin ?? "top-left"
+        this.policy = options.policy ?? "throw"
+    }
+
+    get isBounded(): boolean {
+        return isFinite(this.width) && isFinite(this.height)
+    }
+
+    constrainX(value: number): number {
+        return this.constrain("X", value, this.width)
+    }
+
+    constrainY(value: number): number {
+        return this.constrain("Y", value, this.height)
+    }
+
+    contains(x: number, y: number): boolean {
+        return !this.isBounded || (x >= 0 && x <= this.width && y >= 0 && y <= this.height)
+    }
+
+    convert(point: Point2d, target: CoordinateSpace): Point2d {
+        if (!point.space.isBounded || !target.isBounded) {
+            throw new Error("Cannot convert between unbounded coordinate spaces")
+        }
+        const x = (point.X / point.space.width) * target.width
+        let y = (point.Y / point.space.height) * target.height
+        if (point.space.origin !== target.origin) {
+            y = target.height - y
+        }
+        return new Point2d(x, y, target)
+    }
+
+    str(): string {
+        return `CoordinateSpace(${this.width}x${this.height}, ${this.origin}, ${this.policy})`
+    }
+
+    private constrain(axis: string, value: number, max: number): number {
+        if (!isFinite(max) || (value >= 0 && value <= max)) return value
+
+        switch (this.policy) {
+            case "clamp":
+                return Math.min(max, Math.max(0, value))
+            case "wrap":
+                return ((value % max) + max) % max
+            default:
+                throw new Error(`${axis} must be between 0 and ${max}`)
+        }
+    }
+}
+
+class PointN {
+    protected readonly coords: number[]
+
+    constructor(coords: number[]) {
+        this.coords = [...coords]
+    }
+
+    get dimension(): number {
+        return this.coords.length
+    }
+
+    getItem(index: number): number {
+        this.checkIndex(index)
+        return this.coords[index]
+    }
+
+    setItem(index: number, value: number): void {
+        this.checkIndex(index)
+        this.coords[index] = this.constrain(index, value)
+    }
+
+    [Symbol.iterator](): Iterator<number> {
+        return this.iter()[Symbol.iterator]()
+    }
+
+    iter(): number[] {
+        return [...this.coords]
+    }
+
+    add(vector: VectorN): this {
+        this.checkDimension(vector.dimension)
+        return this.build(this.coords.map((value, index) => value + vector.getItem(index)))
+    }
+
+    subtract(vector: VectorN): this {
+        this.checkDimension(vector.dimension)
+        return this.build(this.coords.map((value, index) => value - vector.getItem(index)))
+    }
+
+    vectorTo(other: PointN): VectorN {
+        this.checkDimension(other.dimension)
+        return new VectorN(this.coords.map((value, index) => other.getItem(index) - value))
+    }
+
+    distanceTo(other: PointN): number {
+        return this.vectorTo(other).length
+    }
+
+    eq(other: PointN): boolean {
+        return this.dimension === other.dimension && this.coords.every((value, index) => value === other.getItem(index))
+    }
+
+    str(): string {
+        return `${this.constructor.name}(${this.coords.join(", ")})`
+    }
+
+    protected build(coords: number[]): this {
+        return new PointN(coords) as this
+    }
+
+    protected constrain(index: number, value: number): number {
+        return value
+    }
+
+    protected checkIndex(index: number): void {
+        if (!Number.isInteger(index) || index < 0 || index >= this.dimension) throw new Error("Index out of range")
+    }
+
+    protected checkDimension(dimension: number): void {
+        if (dimension !== this.dimension) throw new Error(`Dimension mismatch: ${this.dimension} and ${dimension}`)
+    }
+}
+
+class Point2d extends PointN {
+    readonly space: CoordinateSpace
+
+    constructor(X: number, Y: number, space: CoordinateSpace = CoordinateSpace.canvas) {
+        super([space.constrainX(X), space.constrainY(Y)])
+        this.space = space
     }
 
     get X(): number {
-        return this.x
+        return this.coords[0]
     }
 
     set X(value: number) {
-        if (value < 0 || value > WIDTH) {
-            throw new Error(`X must be between 0 and ${WIDTH}`)
-        }
-        this.x = value
+        this.setItem(0, value)
     }
 
     get Y(): number {
-        return this.y
+        return this.coords[1]
     }
 
     set Y(value: number) {
-        if (value < 0 || value > HEIGHT) {
-            throw new Error(`Y must be between 0 and ${HEIGHT}`)
-        }
-        this.y = value
+        this.setItem(1, value)
+    }
+
+    convertTo(space: CoordinateSpace): Point2d {
+        return this.space.convert(this, space)
+    }
+
+    protected build(coords: number[]): this {
+        return new Point2d(coords[0], coords[1], this.space) as this
+    }
+
+    protected constrain(index: number, value: number): number {
+        return index === 0 ? this.space.constrainX(value) : this.space.constrainY(value)
+    }
+}
+
+class Point3d extends PointN {
+    constructor(X: number, Y: number, Z: number) {
+        super([X, Y, Z])
     }
 
-    eq(other: Point2d): boolean {
-        return this.X === other.X && this.Y === other.Y
+    get X(): number {
+        return this.coords[0]
+    }
+
+    set X(value: number) {
+        this.setItem(0, value)
+    }
+
+    get Y(): number {
+        return this.coords[1]
+    }
+
+    set Y(value: number) {
+        this.setItem(1, value)
+    }
+
+    get Z(): number {
+        return this.coords[2]
+    }
+
+    set Z(value: number) {
+        this.setItem(2, value)
+    }
+
+    protected build(coords: number[]): this {
+        return new Point3d(coords[0], coords[1], coords[2]) as this
+    }
+}
+
+class VectorN {
+    protected readonly components: readonly number[]
+
+    constructor(components: number[]) {
+        this.components = Object.freeze([...components])
+        Object.freeze(this)
+    }
+
+    static zero(dimension: number): VectorN {
+        return new VectorN(new Array(dimension).fill(0))
+    }
+
+    static fromPoints(start: PointN, end: PointN): VectorN {
+        return start.vectorTo(end)
+    }
+
+    get dimension(): number {
+        return this.components.length
+    }
+
+    get length(): number {
+        return Math.sqrt(this.scalarProduct(this))
+    }
+
+    getItem(index: number): number {
+        if (!Number.isInteger(index) || index < 0 || index >= this.dimension) throw new Error("Index out of range")
+        return this.components[index]
+    }
+
+    withItem(index: number, value: number): this {
+        this.getItem(index)
+        return this.build(this.components.map((component, i) => (i === index ? value : component)))
+    }
+
+    [Symbol.iterator](): Iterator<number> {
+        return this.iter()[Symbol.iterator]()
+    }
+
+    iter(): number[] {
+        return [...this.components]
+    }
+
+    eq(other: VectorN, epsilon: number = EPSILON): boolean {
+        return this.dimension === other.dimension && this.components.every((component, index) => Math.abs(component - other.getItem(index)) <= epsilon)
+    }
+
+    isZero(epsilon: number = EPSILON): boolean {
+        return this.length <= epsilon
     }
 
     str(): string {
-        return `Point2d(${this.X}, ${this.Y})`
+        return `${this.constructor.name}(${this.components.join(", ")})`
+    }
+
+    add(other: VectorN): this {
+        this.checkDimension(other)
+        return this.build(this.components.map((component, index) => component + other.getItem(index)))
+    }
+
+    subtract(other: VectorN): this {
+        this.checkDimension(other)
+        return this.build(this.components.map((component, index) => component - other.getItem(index)))
+    }
+
+    multiply(scalar: number): this {
+        return this.build(this.components.map((component) => component * scalar))
+    }
+
+    divide(scalar: number): this {
+        if (scalar === 0) throw new Error("Division by zero")
+        return this.build(this.components.map((component) => component / scalar))
+    }
+
+    negate(): this {
+        return this.multiply(-1)
+    }
+
+    normalize(): this {
+        if (this.isZero()) throw new Error("Cannot normalize a zero vector")
+        return this.divide(this.length)
+    }
+
+    angleTo(other: VectorN): number {
+        const lengths = this.length * other.length
+        if (lengths === 0) throw new Error("Cannot measure an angle to a zero vector")
+        return Math.acos(Math.min(1, Math.max(-1, this.scalarProduct(other) / lengths)))
+    }
+
+    project(onto: VectorN): this {
+        const denominator = onto.scalarProduct(onto)
+        if (denominator <= EPSILON * EPSILON) throw new Error("Cannot project onto a zero vector")
+        return this.build(onto.iter()).multiply(this.scalarProduct(onto) / denominator)
+    }
+
+    reflect(normal: VectorN): this {
+        const unit = normal.normalize()
+        return this.subtract(unit.multiply(2 * this.scalarProduct(unit)))
+    }
+
+    lerp(other: VectorN, t: number): this {
+        this.checkDimension(other)
+        return this.build(this.components.map((component, index) => component + (other.getItem(index) - component) * t))
+    }
+
+    scalarProduct(other: VectorN): number {
+        this.checkDimension(other)
+        return this.components.reduce((sum, component, index) => sum + component * other.getItem(index), 0)
+    }
+
+    static scalarProduct(a: VectorN, b: VectorN): number {
+        return a.scalarProduct(b)
+    }
+
+    protected build(components: number[]): this {
+        return new VectorN(components) as this
+    }
+
+    protected checkDimension(other: VectorN): void {
+        if (other.dimension !== this.dimension) throw new Error(`Dimension mismatch: ${this.dimension} and ${other.dimension}`)
     }
 }
 
@@ -48,100 +350,576 @@ type PointConstructor = {
 
 type coordsConstructor = { x: number; y: number }
 
-class Vector2d {
-    private x: number
-    private y: number
-
+class Vector2d extends VectorN {
     constructor(args: PointConstructor | coordsConstructor) {
         if ("x" in args) {
-            this.x = args.x
-            this.y = args.y
+            super([args.x, args.y])
         } else {
-            this.x = args.start.X - args.start.X
-            this.y = args.start.Y - args.start.Y
+            super([args.end.X - args.start.X, args.end.Y - args.start.Y])
         }
     }
 
+    static fromPolar(length: number, angle: number): Vector2d {
+        return new Vector2d({ x: length * Math.cos(angle), y: length * Math.sin(angle) })
+    }
+
     get X(): number {
-        return this.x
+        return this.components[0]
     }
 
-    set X(value: number) {
-        this.x = value
+    get Y(): number {
+        return this.components[1]
+    }
+
+    get angle(): number {
+        return Math.atan2(this.Y, this.X)
+    }
+
+    signedAngleTo(other: Vector2d): number {
+        if (this.isZero() || other.isZero()) throw new Error("Cannot measure an angle to a zero vector")
+        return Math.atan2(this.vectorProduct(other), this.scalarProduct(other))
+    }
+
+    rotate(angle: number): Vector2d {
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        return new Vector2d({ x: this.X * cos - this.Y * sin, y: this.X * sin + this.Y * cos })
+    }
+
+    vectorProduct(other: Vector2d): number {
+        return this.X * other.Y - this.Y * other.X
+    }
+
+    static vectorProduct(a: Vector2d, b: Vector2d): number {
+        return a.vectorProduct(b)
+    }
+
+    protected build(components: number[]): this {
+        return new Vector2d({ x: components[0], y: components[1] }) as this
+    }
+}
+
+class Vector3d extends VectorN {
+    constructor(x: number, y: number, z: number) {
+        super([x, y, z])
+    }
+
+    static fromPoints(start: Point3d, end: Point3d): Vector3d {
+        return new Vector3d(end.X - start.X, end.Y - start.Y, end.Z - start.Z)
+    }
+
+    get X(): number {
+        return this.components[0]
     }
 
     get Y(): number {
-        return this.y
+        return this.components[1]
     }
 
-    set Y(value: number) {
-        this.y = value
+    get Z(): number {
+        return this.components[2]
+    }
+
+    vectorProduct(other: Vector3d): Vector3d {
+        return new Vector3d(this.Y * other.Z - this.Z * other.Y, this.Z * other.X - this.X * other.Z, this.X * other.Y - this.Y * other.X)
+    }
+
+    static vectorProduct(a: Vector3d, b: Vector3d): Vector3d {
+        return a.vectorProduct(b)
+    }
+
+    static tripleProduct(a: Vector3d, b: Vector3d, c: Vector3d): number {
+        return Vector3d.scalarProduct(a, Vector3d.vectorProduct(b, c))
+    }
+
+    protected build(components: number[]): this {
+        return new Vector3d(components[0], components[1], components[2]) as this
+    }
+}
+
+type AffineComponents = {
+    translateX: number
+    translateY: number
+    rotation: number
+    scaleX: number
+    scaleY: number
+    shear: number
+}
+
+class Affine2d {
+    // x' = a * x + c * y + e
+    // y' = b * x + d * y + f
+    constructor(readonly a: number, readonly b: number, readonly c: number, readonly d: number, readonly e: number, readonly f: number) {}
+
+    static identity(): Affine2d {
+        return new Affine2d(1, 0, 0, 1, 0, 0)
+    }
+
+    static translation(tx: number, ty: number): Affine2d {
+        return new Affine2d(1, 0, 0, 1, tx, ty)
+    }
+
+    static rotation(angle: number): Affine2d {
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        return new Affine2d(cos, sin, -sin, cos, 0, 0)
+    }
+
+    static scaling(sx: number, sy: number = sx): Affine2d {
+        return new Affine2d(sx, 0, 0, sy, 0, 0)
+    }
+
+    static shearing(kx: number, ky: number = 0): Affine2d {
+        return new Affine2d(1, ky, kx, 1, 0, 0)
+    }
+
+    static fromComponents(components: AffineComponents): Affine2d {
+        const { translateX, translateY, rotation, scaleX, scaleY, shear } = components
+        return Affine2d.shearing(shear).then(Affine2d.scaling(scaleX, scaleY)).then(Affine2d.rotation(rotation)).then(Affine2d.translation(translateX, translateY))
+    }
+
+    static interpolate(from: Affine2d, to: Affine2d, t: number): Affine2d {
+        const lerp = (start: number, end: number): number => start + (end - start) * t
+        const a = from.decompose()
+        const b = to.decompose()
+
+        if (!a || !b) {
+            return new Affine2d(lerp(from.a, to.a), lerp(from.b, to.b), lerp(from.c, to.c), lerp(from.d, to.d), lerp(from.e, to.e), lerp(from.f, to.f))
+        }
+
+        let deltaRotation = b.rotation - a.rotation
+        if (deltaRotation > Math.PI) deltaRotation -= 2 * Math.PI
+        if (deltaRotation < -Math.PI) deltaRotation += 2 * Math.PI
+
+        return Affine2d.fromComponents({
+            translateX: lerp(a.translateX, b.translateX),
+            translateY: lerp(a.translateY, b.translateY),
+            rotation: a.rotation + deltaRotation * t,
+            scaleX: lerp(a.scaleX, b.scaleX),
+            scaleY: lerp(a.scaleY, b.scaleY),
+            shear: lerp(a.shear, b.shear),
+        })
+    }
+
+    get determinant(): number {
+        return this.a * this.d - this.b * this.c
+    }
+
+    multiply(other: Affine2d): Affine2d {
+        return new Affine2d(
+            this.a * other.a + this.c * other.b,
+            this.b * other.a + this.d * other.b,
+            this.a * other.c + this.c * other.d,
+            this.b * other.c + this.d * other.d,
+            this.a * other.e + this.c * other.f + this.e,
+            this.b * other.e + this.d * other.f + this.f
+        )
+    }
+
+    then(other: Affine2d): Affine2d {
+        return other.multiply(this)
+    }
+
+    translate(tx: number, ty: number): Affine2d {
+        return this.then(Affine2d.translation(tx, ty))
     }
 
+    rotate(angle: number): Affine2d {
+        return this.then(Affine2d.rotation(angle))
+    }
+
+    scale(sx: number, sy: number = sx): Affine2d {
+        return this.then(Affine2d.scaling(sx, sy))
+    }
+
+    shear(kx: number, ky: number = 0): Affine2d {
+        return this.then(Affine2d.shearing(kx, ky))
+    }
+
+    invert(): Affine2d {
+        const det = this.determinant
+        if (Math.abs(det) <= EPSILON) throw new Error("Transform is not invertible")
+        return new Affine2d(
+            this.d / det,
+            -this.b / det,
+            -this.c / det,
+            this.a / det,
+            (this.c * this.f - this.d * this.e) / det,
+            (this.b * this.e - this.a * this.f) / det
+        )
+    }
+
+    decompose(): AffineComponents | null {
+        const scaleX = Math.sqrt(this.a * this.a + this.b * this.b)
+        if (scaleX === 0) return null
+
+        return {
+            translateX: this.e,
+            translateY: this.f,
+            rotation: Math.atan2(this.b, this.a),
+            scaleX,
+            scaleY: this.determinant / scaleX,
+            shear: (this.a * this.c + this.b * this.d) / (scaleX * scaleX),
+        }
+    }
+
+    applyToPoint(point: Point2d): Point2d {
+        return new Point2d(this.a * point.X + this.c * point.Y + this.e, this.b * point.X + this.d * point.Y + this.f, point.space)
+    }
+
+    applyToVector(vector: Vector2d): Vector2d {
+        return new Vector2d({ x: this.a * vector.X + this.c * vector.Y, y: this.b * vector.X + this.d * vector.Y })
+    }
+
+    eq(other: Affine2d, epsilon: number = EPSILON): boolean {
+        const near = (x: number, y: number): boolean => Math.abs(x - y) <= epsilon
+        return near(this.a, other.a) && near(this.b, other.b) && near(this.c, other.c) && near(this.d, other.d) && near(this.e, other.e) && near(this.f, other.f)
+    }
+
+    str(): string {
+        return `Affine2d(${this.a}, ${this.b}, ${this.c}, ${this.d}, ${this.e}, ${this.f})`
+    }
+}
+
+const turnDirection = (a: Point2d, b: Point2d, c: Point2d): number => {
+    const cross = (b.X - a.X) * (c.Y - a.Y) - (b.Y - a.Y) * (c.X - a.X)
+    return Math.abs(cross) < EPSILON ? 0 : Math.sign(cross)
+}
+
+class Segment2d {
+    constructor(readonly start: Point2d, readonly end: Point2d) {}
+
     get length(): number {
-        return Math.sqrt(this.X * this.X + this.Y * this.Y)
+        return this.direction.length
     }
 
-    getItem(index: number): number {
-        if (index === 0) return this.X
-        if (index === 1) return this.Y
-        throw new Error("Index out of range")
+    get direction(): Vector2d {
+        return new Vector2d({ x: this.end.X - this.start.X, y: this.end.Y - this.start.Y })
     }
 
-    setItem(index: number, value: number): void {
-        if (index === 0) this.X = value
-        else if (index === 1) this.Y = value
-        else throw new Error("Index out of range")
+    get midpoint(): Point2d {
+        return new Point2d((this.start.X + this.end.X) / 2, (this.start.Y + this.end.Y) / 2, this.start.space)
+    }
+
+    isDegenerate(): boolean {
+        return this.length < EPSILON
+    }
+
+    pointAt(t: number): Point2d {
+        return new Point2d(this.start.X + (this.end.X - this.start.X) * t, this.start.Y + (this.end.Y - this.start.Y) * t, this.start.space)
+    }
+
+    containsPoint(point: Point2d): boolean {
+        if (turnDirection(this.start, this.end, point) !== 0) return false
+        return (
+            point.X >= Math.min(this.start.X, this.end.X) - EPSILON &&
+            point.X <= Math.max(this.start.X, this.end.X) + EPSILON &&
+            point.Y >= Math.min(this.start.Y, this.end.Y) - EPSILON &&
+            point.Y <= Math.max(this.start.Y, this.end.Y) + EPSILON
+        )
+    }
+
+    intersect(other: Segment2d): Point2d | Segment2d | null {
+        if (this.isDegenerate()) return other.containsPoint(this.start) ? this.start : null
+        if (other.isDegenerate()) return this.containsPoint(other.start) ? other.start : null
+
+        const r = this.direction
+        const s = other.direction
+        const qp = new Vector2d({ x: other.start.X - this.start.X, y: other.start.Y - this.start.Y })
+        const denominator = r.vectorProduct(s)
+
+        if (Math.abs(denominator) < EPSILON) {
+            if (Math.abs(qp.vectorProduct(r)) >= EPSILON) return null
+
+            const rr = r.scalarProduct(r)
+            const t0 = qp.scalarProduct(r) / rr
+            const t1 = t0 + s.scalarProduct(r) / rr
+            const from = Math.max(0, Math.min(t0, t1))
+            const to = Math.min(1, Math.max(t0, t1))
+
+            if (from > to + EPSILON) return null
+            if (to - from < EPSILON) return this.pointAt(from)
+            return new Segment2d(this.pointAt(from), this.pointAt(to))
+        }
+
+        const t = qp.vectorProduct(s) / denominator
+        const u = qp.vectorProduct(r) / denominator
+        if (t < -EPSILON || t > 1 + EPSILON || u < -EPSILON || u > 1 + EPSILON) return null
+
+        return this.pointAt(Math.min(1, Math.max(0, t)))
+    }
+
+    clip(rect: Rect2d = Rect2d.canvas()): Segment2d | null {
+        const dx = this.end.X - this.start.X
+        const dy = this.end.Y - this.start.Y
+        const p = [-dx, dx, -dy, dy]
+        const q = [this.start.X - rect.left, rect.right - this.start.X, this.start.Y - rect.top, rect.bottom - this.start.Y]
+        let from = 0
+        let to = 1
+
+        for (let i = 0; i < 4; i++) {
+            if (Math.abs(p[i]) < EPSILON) {
+                if (q[i] < 0) return null
+                continue
+            }
+            const t = q[i] / p[i]
+            if (p[i] < 0) from = Math.max(from, t)
+            else to = Math.min(to, t)
+            if (from > to) return null
+        }
+
+        return new Segment2d(this.pointAt(from), this.pointAt(to))
+    }
+
+    eq(other: Segment2d): boolean {
+        return this.start.eq(other.start) && this.end.eq(other.end)
+    }
+
+    str(): string {
+        return `Segment2d(${this.start.str()}, ${this.end.str()})`
+    }
+}
+
+class Rect2d {
+    constructor(readonly x: number, readonly y: number, readonly width: number, readonly height: number, readonly space: CoordinateSpace = CoordinateSpace.canvas) {
+        if (width < 0 || height < 0) throw new Error("Rect2d size must not be negative")
+    }
+
+    static canvas(): Rect2d {
+        return Rect2d.fromSpace(CoordinateSpace.canvas)
+    }
+
+    static fromSpace(space: CoordinateSpace): Rect2d {
+        return new Rect2d(0, 0, space.width, space.height, space)
+    }
+
+    static fromPoints(points: Point2d[]): Rect2d {
+        if (points.length === 0) throw new Error("Cannot build Rect2d from no points")
+        const xs = points.map((point) => point.X)
+        const ys = points.map((point) => point.Y)
+        const left = Math.min(...xs)
+        const top = Math.min(...ys)
+        return new Rect2d(left, top, Math.max(...xs) - left, Math.max(...ys) - top, points[0].space)
+    }
+
+    get left(): number {
+        return this.x
+    }
+
+    get top(): number {
+        return this.y
+    }
+
+    get right(): number {
+        return this.x + this.width
+    }
+
+    get bottom(): number {
+        return this.y + this.height
+    }
+
+    get area(): number {
+        return this.width * this.height
+    }
+
+    get center(): Point2d {
+        return new Point2d(this.x + this.width / 2, this.y + this.height / 2, this.space)
+    }
+
+    isEmpty(): boolean {
+        return this.width < EPSILON || this.height < EPSILON
     }
 
-    iter() {
-        return Object.values(this)
+    containsPoint(point: Point2d): boolean {
+        return point.X >= this.left - EPSILON && point.X <= this.right + EPSILON && point.Y >= this.top - EPSILON && point.Y <= this.bottom + EPSILON
     }
 
-    eq(other: Vector2d): boolean {
-        return this.X === other.X && this.Y === other.Y
+    intersects(other: Rect2d): boolean {
+        return this.intersection(other) !== null
+    }
+
+    intersection(other: Rect2d): Rect2d | null {
+        const left = Math.max(this.left, other.left)
+        const top = Math.max(this.top, other.top)
+        const right = Math.min(this.right, other.right)
+        const bottom = Math.min(this.bottom, other.bottom)
+        if (left > right + EPSILON || top > bottom + EPSILON) return null
+        return new Rect2d(left, top, Math.max(0, right - left), Math.max(0, bottom - top), this.space)
+    }
+
+    union(other: Rect2d): Rect2d {
+        const left = Math.min(this.left, other.left)
+        const top = Math.min(this.top, other.top)
+        return new Rect2d(left, top, Math.max(this.right, other.right) - left, Math.max(this.bottom, other.bottom) - top, this.space)
+    }
+
+    toPolygon(): Polygon2d {
+        return new Polygon2d([
+            new Point2d(this.left, this.top, this.space),
+            new Point2d(this.right, this.top, this.space),
+            new Point2d(this.right, this.bottom, this.space),
+            new Point2d(this.left, this.bottom, this.space),
+        ])
+    }
+
+    eq(other: Rect2d): boolean {
+        return this.x === other.x && this.y === other.y && this.width === other.width && this.height === other.height
     }
 
     str(): string {
-        return `Vector2d(${this.X}, ${this.Y})`
+        return `Rect2d(${this.x}, ${this.y}, ${this.width}, ${this.height})`
+    }
+}
+
+class Polygon2d {
+    private readonly points: Point2d[]
+
+    constructor(points: Point2d[]) {
+        this.points = points.filter((point, index) => index === 0 || !point.eq(points[index - 1]))
+        if (this.points.length > 1 && this.points[0].eq(this.points[this.points.length - 1])) {
+            this.points.pop()
+        }
     }
 
-    add(other: Vector2d): Vector2d {
-        return new Vector2d({ x: this.X + other.X, y: this.Y + other.Y })
+    static convexHull(points: Point2d[]): Polygon2d {
+        const sorted = [...points].sort((a, b) => a.X - b.X || a.Y - b.Y).filter((point, index, all) => index === 0 || !point.eq(all[index - 1]))
+        if (sorted.length < 3) return new Polygon2d(sorted)
+
+        const build = (source: Point2d[]): Point2d[] => {
+            const chain: Point2d[] = []
+            for (const point of source) {
+                while (chain.length >= 2 && turnDirection(chain[chain.length - 2], chain[chain.length - 1], point) <= 0) {
+                    chain.pop()
+                }
+                chain.push(point)
+            }
+            chain.pop()
+            return chain
+        }
+
+        const hull = [...build(sorted), ...build([...sorted].reverse())]
+        return new Polygon2d(hull.length >= 3 ? hull : [sorted[0], sorted[sorted.length - 1]])
     }
 
-    subtract(other: Vector2d): Vector2d {
-        return new Vector2d({ x: this.X - other.X, y: this.Y - other.Y })
+    get vertices(): Point2d[] {
+        return [...this.points]
     }
 
-    multiply(scalar: number): Vector2d {
-        return new Vector2d({ x: this.X * scalar, y: this.Y * scalar })
+    get edges(): Segment2d[] {
+        if (this.points.length < 2) return []
+        if (this.points.length === 2) return [new Segment2d(this.points[0], this.points[1])]
+        return this.points.map((point, index) => new Segment2d(point, this.points[(index + 1) % this.points.length]))
     }
 
-    divide(scalar: number): Vector2d {
-        if (scalar === 0) throw new Error("Division by zero")
-        return new Vector2d({ x: this.X / scalar, y: this.Y / scalar })
+    get signedArea(): number {
+        let sum = 0
+        for (let i = 0; i < this.points.length; i++) {
+            const current = this.points[i]
+            const next = this.points[(i + 1) % this.points.length]
+            sum += current.X * next.Y - next.X * current.Y
+        }
+        return sum / 2
     }
 
-    scalarProduct(other: Vector2d): number {
-        return this.X * other.X + this.Y * other.Y
+    get area(): number {
+        return Math.abs(this.signedArea)
     }
 
-    vectorProduct(other: Vector2d): number {
-        return this.X * other.Y - this.Y * other.X
+    get perimeter(): number {
+        return this.edges.reduce((sum, edge) => sum + edge.length, 0)
     }
 
-    static scalarProduct(a: Vector2d, b: Vector2d): number {
-        return a.scalarProduct(b)
+    get centroid(): Point2d {
+        if (this.points.length === 0) throw new Error("Empty polygon has no centroid")
+
+        const area = this.signedArea
+        if (Math.abs(area) < EPSILON) {
+            const edges = this.edges
+            const length = edges.reduce((sum, edge) => sum + edge.length, 0)
+            if (length < EPSILON) return this.points[0]
+            const x = edges.reduce((sum, edge) => sum + edge.midpoint.X * edge.length, 0)
+            const y = edges.reduce((sum, edge) => sum + edge.midpoint.Y * edge.length, 0)
+            return new Point2d(x / length, y / length, this.points[0].space)
+        }
+
+        let x = 0
+        let y = 0
+        for (let i = 0; i < this.points.length; i++) {
+            const current = this.points[i]
+            const next = this.points[(i + 1) % this.points.length]
+            const cross = current.X * next.Y - next.X * current.Y
+            x += (current.X + next.X) * cross
+            y += (current.Y + next.Y) * cross
+        }
+        return new Point2d(x / (6 * area), y / (6 * area), this.points[0].space)
     }
 
-    static vectorProduct(a: Vector2d, b: Vector2d): number {
-        return a.vectorProduct(b)
+    get boundingBox(): Rect2d {
+        return Rect2d.fromPoints(this.points)
+    }
+
+    isDegenerate(): boolean {
+        return this.points.length < 3 || this.area < EPSILON
+    }
+
+    isConvex(): boolean {
+        if (this.isDegenerate()) return false
+        let sign = 0
+        for (let i = 0; i < this.points.length; i++) {
+            const turn = turnDirection(this.points[i], this.points[(i + 1) % this.points.length], this.points[(i + 2) % this.points.length])
+            if (turn === 0) continue
+            if (sign !== 0 && turn !== sign) return false
+            sign = turn
+        }
+        return true
+    }
+
+    containsPoint(point: Point2d): boolean {
+        if (this.edges.some((edge) => edge.containsPoint(point))) return true
+        if (this.isDegenerate()) return false
+
+        let inside = false
+        for (let i = 0, j = this.points.length - 1; i < this.points.length; j = i++) {
+            const a = this.points[i]
+            const b = this.points[j]
+            if (a.Y > point.Y !== b.Y > point.Y && point.X < ((b.X - a.X) * (point.Y - a.Y)) / (b.Y - a.Y) + a.X) {
+                inside = !inside
+            }
+        }
+        return inside
     }
 
-    // static tripleProduct(a: Vector2d, b: Vector2d, c: Vector2d): number {
-    //     return Vector2d.scalarProduct(a, Vector2d.vectorProduct(b, c))
-    // }
+    clip(rect: Rect2d = Rect2d.canvas()): Polygon2d {
+        if (this.points.length === 0) return this
+        const space = this.points[0].space
+        const boundaries: [(point: Point2d) => boolean, (a: Point2d, b: Point2d) => Point2d][] = [
+            [(point) => point.X >= rect.left, (a, b) => new Point2d(rect.left, a.Y + ((b.Y - a.Y) * (rect.left - a.X)) / (b.X - a.X), space)],
+            [(point) => point.X <= rect.right, (a, b) => new Point2d(rect.right, a.Y + ((b.Y - a.Y) * (rect.right - a.X)) / (b.X - a.X), space)],
+            [(point) => point.Y >= rect.top, (a, b) => new Point2d(a.X + ((b.X - a.X) * (rect.top - a.Y)) / (b.Y - a.Y), rect.top, space)],
+            [(point) => point.Y <= rect.bottom, (a, b) => new Point2d(a.X + ((b.X - a.X) * (rect.bottom - a.Y)) / (b.Y - a.Y), rect.bottom, space)],
+        ]
+
+        let output = this.points
+        for (const [inside, cross] of boundaries) {
+            const input = output
+            output = []
+            for (let i = 0; i < input.length; i++) {
+                const current = input[i]
+                const previous = input[(i + input.length - 1) % input.length]
+                if (inside(current)) {
+                    if (!inside(previous)) output.push(cross(previous, current))
+                    output.push(current)
+                } else if (inside(previous)) {
+                    output.push(cross(previous, current))
+                }
+            }
+        }
+        return new Polygon2d(output)
+    }
+
+    str(): string {
+        return `Polygon2d(${this.points.map((point) => point.str()).join(", ")})`
+    }
 }
 
 const demonstratee = () => {
@@ -186,9 +964,83 @@ const demonstratee = () => {
 
         console.log(`Length of v1: ${v1.length}`)
         console.log(`Length of v2: ${v2.length}`)
+
+        console.log("\nVector geometry:")
+        console.log(`Array.from(v2): ${Array.from(v2)}`)
+        console.log(`normalize(v2): ${v2.normalize().str()}`)
+        console.log(`angle(v1, v2): ${v1.angleTo(v2)}`)
+        console.log(`signed angle(v2, v1): ${v2.signedAngleTo(v1)}`)
+        console.log(`project(v1, v2): ${v1.project(v2).str()}`)
+        console.log(`reflect(v1, normal (0, 1)): ${v1.reflect(new Vector2d({ x: 0, y: 1 })).str()}`)
+        console.log(`rotate(v1, 90deg): ${v1.rotate(Math.PI / 2).str()}`)
+        console.log(`lerp(v1, v2, 0.5): ${v1.lerp(v2, 0.5).str()}`)
+        console.log(`fromPolar(2, 45deg): ${Vector2d.fromPolar(2, Math.PI / 4).str()}`)
+        console.log(`0.1 + 0.2 equals 0.3: ${new Vector2d({ x: 0.1 + 0.2, y: 0 }).eq(new Vector2d({ x: 0.3, y: 0 }))}`)
+
+        console.log("\nN-dimensional:")
+        const a3 = new Vector3d(1, 0, 0)
+        const b3 = new Vector3d(0, 1, 0)
+        const c3 = new Vector3d(0, 0, 1)
+        console.log(`a x b: ${a3.vectorProduct(b3).str()}`)
+        console.log(`Triple product: ${Vector3d.tripleProduct(a3, b3, c3)}`)
+        console.log(`Vector between 3d points: ${Vector3d.fromPoints(new Point3d(1, 2, 3), new Point3d(4, 6, 3)).str()}`)
+        console.log(`Point3d + vector: ${new Point3d(1, 2, 3).add(c3).str()}`)
+        const v4 = new VectorN([1, 2, 3, 4])
+        console.log(`${v4.str()} length: ${v4.length}, normalized: ${v4.normalize().str()}`)
+
+        console.log("\nAffine transforms:")
+        const transform = Affine2d.identity().scale(2).rotate(Math.PI / 2).translate(100, 50)
+        console.log(transform.str())
+        console.log(`transform(p1): ${transform.applyToPoint(p1).str()}`)
+        console.log(`transform(v1): ${transform.applyToVector(v1).str()}`)
+        console.log(`inverse(transform(p1)): ${transform.invert().applyToPoint(transform.applyToPoint(p1)).str()}`)
+
+        const from = Affine2d.translation(15, 2)
+        const to = Affine2d.rotation(Math.PI / 4).translate(40, 20)
+        for (const t of [0, 0.5, 1]) {
+            console.log(`interpolate(${t}): ${Affine2d.interpolate(from, to, t).applyToPoint(p1).str()}`)
+        }
+
+        console.log("\nShapes:")
+        const s1 = new Segment2d(new Point2d(0, 0), new Point2d(100, 100))
+        const s2 = new Segment2d(new Point2d(0, 100), new Point2d(100, 0))
+        const s3 = new Segment2d(new Point2d(50, 50), new Point2d(150, 150))
+        console.log(`s1 x s2: ${s1.intersect(s2)?.str()}`)
+        console.log(`s1 x s3 (collinear): ${s1.intersect(s3)?.str()}`)
+        console.log(`Clipped segment: ${new Segment2d(new Point2d(-100, 400, CoordinateSpace.plane), new Point2d(1200, 400, CoordinateSpace.plane)).clip()?.str()}`)
+
+        const square = new Polygon2d([new Point2d(0, 0), new Point2d(200, 0), new Point2d(200, 200), new Point2d(0, 200)])
+        console.log(`Square area: ${square.area}, centroid: ${square.centroid.str()}`)
+        console.log(`Square contains p1: ${square.containsPoint(p1)}`)
+        console.log(`Square bounding box: ${square.boundingBox.str()}`)
+
+        const hull = Polygon2d.convexHull([p1, p2, new Point2d(20, 30), new Point2d(50, 0), new Point2d(0, 60), new Point2d(25, 25)])
+        console.log(`Convex hull: ${hull.str()}`)
+
+        const overflowing = new Polygon2d([new Point2d(900, 700, CoordinateSpace.plane), new Point2d(1100, 700, CoordinateSpace.plane), new Point2d(1100, 900, CoordinateSpace.plane), new Point2d(900, 900, CoordinateSpace.plane)])
+        console.log(`Clipped to canvas: ${overflowing.clip().str()}`)
+
+        console.log("\nCoordinate spaces:")
+        const clamped = new CoordinateSpace({ width: 100, height: 100, policy: "clamp" })
+        const wrapped = new CoordinateSpace({ width: 100, height: 100, policy: "wrap" })
+        const terminal = new CoordinateSpace({ width: 80, height: 24, origin: "top-left" })
+        const cartesian = new CoordinateSpace({ width: WIDTH, height: HEIGHT, origin: "bottom-left" })
+        console.log(`Clamped: ${new Point2d(150, -20, clamped).str()}`)
+        console.log(`Wrapped: ${new Point2d(150, -20, wrapped).add(v1).str()}`)
+        console.log(`p2 in terminal cells: ${p2.convertTo(terminal).str()}`)
+        console.log(`p2 in bottom-left space: ${p2.convertTo(cartesian).str()}`)
+        try {
+            p1.X = WIDTH + 1
+        } catch (error) {
+            console.log(`Out of range: ${error.message}`)
+        }
     } catch (error) {
         console.error(error)
     }
 }
 
-demonstratee()
+export { Affine2d, CoordinateSpace, Point2d, Polygon2d, Segment2d, Vector2d, WIDTH }
+
+if (require.main === module) {
+    demonstratee()
+}
@@ -0,0 +1,270 @@
+import { runChecks, verify } from "../check/check"
+import {
+    AnimationOptions,
+    AnsiTextExporter,
+    BannerAnimation,
+    BlinkEffect,
+    Canvas,
+    Cell,
+    Color,
+    ColorCycleEffect,
+    ColorSupport,
+    EffectFrame,
+    FigletFontLoader,
+    HtmlExporter,
+    IBannerEffect,
+    ManualClock,
+    MarqueeEffect,
+    Palette,
+    PlainTextExporter,
+    Printer,
+    Style,
+    SvgExporter,
+    TerminalTarget,
+    TypewriterEffect,
+} from "./2"
+
+const FRAME_MS = 100
+
+const playManually = (text: string, effect: IBannerEffect, ms: number, options: AnimationOptions = {}) => {
+    const clock = new ManualClock()
+    const canvas = new Canvas(80)
+    const frames: (EffectFrame | null)[] = []
+    const recorder: IBannerEffect = {
+        frame: (index, base) => {
+            const next = effect.frame(index, base)
+            frames.push(next)
+            return next
+        },
+    }
+    const animation = new BannerAnimation(text, Color.Red, { x: 1, y: 1 }, recorder, { fps: 1000 / FRAME_MS, clock, target: canvas, ...options })
+    const done = animation.play()
+    clock.advance(ms)
+    return { animation, clock, canvas, frames, done }
+}
+
+const plainText = (canvas: Canvas): string => canvas.export(new PlainTextExporter()).trimEnd()
+const rendered = (text: string): string => Printer.measure(text, { maxWidth: Infinity }).render("*").map((row) => row.trimEnd()).join("\n").trimEnd()
+const firstInk = (canvas: Canvas): Cell => canvas.getRows().reduce<Cell[]>((cells, row) => cells.concat(row), []).filter((cell) => cell.char !== " ")[0]
+
+export const checkAnimation = (): Promise<void> =>
+    runChecks("animation", {
+        "typewriter reveals one char per frame and stops after the hold": () => {
+            const { frames, canvas } = playManually("Hi", new TypewriterEffect(1, 2), 10 * FRAME_MS)
+            verify(frames.length === 6, `expected 6 frames, got ${frames.length}`)
+            verify(frames.slice(0, 5).map((frame) => frame?.text).join("|") === "|H|Hi|Hi|Hi", `unexpected texts ${frames.map((frame) => frame?.text).join("|")}`)
+            verify(frames[5] === null, "typewriter should end after the hold frames")
+            verify(plainText(canvas) === rendered("Hi"), "canvas should hold the fully typed text")
+        },
+        "blink alternates visibility per period and clears the banner": () => {
+            const { frames, canvas } = playManually("Hi", new BlinkEffect(2, 1), 10 * FRAME_MS)
+            verify(frames.length === 5, `expected 5 frames, got ${frames.length}`)
+            verify(frames.slice(0, 4).map((frame) => frame?.visible).join() === "true,true,false,false", "visibility should follow the blink period")
+            verify(frames[4] === null, "blink should end after the requested times")
+            verify(plainText(canvas) === "", "hidden frame should leave the canvas blank")
+        },
+        "color cycle steps through the palette once": () => {
+            const { frames, canvas } = playManually("Hi", new ColorCycleEffect([Color.Green, Color.Blue], 1, 1), 10 * FRAME_MS)
+            verify(frames.length === 3, `expected 3 frames, got ${frames.length}`)
+            const colors = frames.slice(0, 2).map((frame) => frame?.style.at(0, 0, 1, 1).foreground)
+            verify(colors[0] === Color.Green && colors[1] === Color.Blue, "frames should use the cycle colors in order")
+            verify(frames[2] === null, "color cycle should end after one cycle")
+            verify(firstInk(canvas).style?.foreground === Color.Blue, "canvas should be drawn in the last cycle color")
+        },
+        "marquee scrolls a fixed window until one loop completes": () => {
+            const width = Printer.measure("Hi", { maxWidth: Infinity }).width
+            const { frames, canvas } = playManually("Hi", new MarqueeEffect(5, 2, 1), 100 * FRAME_MS)
+            const expected = Math.ceil(width / 2)
+            verify(frames.length === expected + 1, `expected ${expected + 1} frames, got ${frames.length}`)
+            verify(frames.slice(0, expected).every((frame, i) => frame?.scroll === i * 2 && frame?.window === 5), "each frame should advance the scroll by the step")
+            verify(frames[expected] === null, "marquee should end after one loop")
+            verify(canvas.width <= 5, `window should clip the banner to 5 columns, got ${canvas.width}`)
+        },
+        "centered marquee scrolls without a width limit and settles": async () => {
+            const { frames, canvas, done } = playManually("Hi", new MarqueeEffect(5, 2, 1), 100 * FRAME_MS, { align: "center" })
+            await done
+            verify(frames[frames.length - 1] === null && frames.length > 1, `centered marquee should finish its loop, got ${frames.length} frames`)
+            verify(canvas.width > 0 && canvas.width <= 5, `window should clip the banner to 5 columns, got ${canvas.width}`)
+        },
+        "frame errors reject play and release the target": async () => {
+            const failing: IBannerEffect = {
+                frame: (index, base) => {
+                    if (index === 2) throw new Error("broken frame")
+                    return base
+                },
+            }
+            let ended = 0
+            const target = new Canvas(80)
+            target.end = () => {
+                ended++
+            }
+            const before = process.listenerCount("SIGINT")
+            const { done, frames } = playManually("Hi", failing, 10 * FRAME_MS, { target })
+            const error = await done.then(
+                () => null,
+                (reason: unknown) => reason
+            )
+            verify(error instanceof Error && error.message === "broken frame", `play should reject with the frame error, got ${error}`)
+            verify(frames.length === 2, `no frames should be drawn after the failure, got ${frames.length}`)
+            verify(ended === 1, "target should be released once")
+            verify(process.listenerCount("SIGINT") === before, "signal handler should be removed after the failure")
+        },
+        "duration stops the scheduler on the manual clock": () => {
+            const { frames, clock } = playManually("Hi", new MarqueeEffect(5), 250, { duration: 250 })
+            verify(frames.length === 3, `expected 3 frames in 250ms at 10 fps, got ${frames.length}`)
+            clock.advance(10 * FRAME_MS)
+            verify(frames.length === 3, "no frames should be drawn after the duration elapsed")
+        },
+        "SIGINT restores the cursor and resets color outside a TTY": () => {
+            const output = { columns: 40, chunks: [] as string[], write: (chunk: string) => output.chunks.push(chunk) }
+            const before = process.listenerCount("SIGINT")
+            const { animation } = playManually("Hi", new BlinkEffect(), 0, { target: new TerminalTarget(ColorSupport.Basic, output) })
+            verify(output.chunks[0] === "\x1b[s\x1b[?25l", "animation should hide the cursor when it starts")
+
+            const exit = process.exit
+            let exitCode: number | undefined
+            process.exit = ((code?: number) => {
+                exitCode = code
+            }) as typeof process.exit
+            try {
+                process.emit("SIGINT", "SIGINT")
+            } finally {
+                process.exit = exit
+            }
+
+            verify(exitCode === 130, `expected exit code 130, got ${exitCode}`)
+            verify(output.chunks[output.chunks.length - 1] === "\x1b[u\x1b[0m\x1b[?25h", "interrupt should restore the cursor, reset color and show the cursor")
+            verify(process.listenerCount("SIGINT") === before, "signal handler should be removed after it fired")
+            animation.stop()
+        },
+    })
+
+const overlay = (rows: string[][]): string[] =>
+    rows[0].map((_, i) => {
+        const cells: string[] = []
+        rows.forEach((glyph) =>
+            Array.from(glyph[i]).forEach((pixel, column) => {
+                if (pixel !== " " || !cells[column]) cells[column] = pixel
+            })
+        )
+        return cells.join("")
+    })
+
+export const checkLayout = (): Promise<void> =>
+    runChecks("layout", {
+        "center and right alignment without a width limit align against the widest line": () => {
+            const narrow = Printer.measure("Hi", { maxWidth: Infinity }).width
+            const wide = Printer.measure("Hello", { maxWidth: Infinity }).width
+            const center = Printer.measure("Hi\nHello", { align: "center", maxWidth: Infinity })
+            const right = Printer.measure("Hi\nHello", { align: "right", maxWidth: Infinity })
+            verify(center.width === wide && right.width === wide, `expected width ${wide}, got ${center.width} and ${right.width}`)
+            verify(center.lines[0].offset === Math.floor((wide - narrow) / 2), `centered offset ${center.lines[0].offset}`)
+            verify(right.lines[0].offset === wide - narrow, `right offset ${right.lines[0].offset}`)
+            verify(center.render().every((row) => row.length <= wide) && right.render().length === right.height, "aligned layouts must render")
+        },
+        "negative kerning overlaps glyphs without erasing them": () => {
+            const a = Printer.measure("A", { maxWidth: Infinity }).render()
+            const b = Printer.measure("B", { maxWidth: Infinity }).render()
+            const kerned = Printer.measure("AB", { kerning: { AB: -10 }, maxWidth: Infinity })
+            verify(kerned.width === Math.max(a[0].length, b[0].length), `expected width ${Math.max(a[0].length, b[0].length)}, got ${kerned.width}`)
+            verify(kerned.render().join("\n") === overlay([a, b]).join("\n"), `expected A and B overlaid, got\n${kerned.render().join("\n")}`)
+        },
+        "measured width matches the rendered width under kerning": () => {
+            ;[-10, -3, -1, 0, 2].forEach((kern) => {
+                const layout = Printer.measure("AVA", { kerning: { AV: kern, VA: kern }, maxWidth: Infinity })
+                const widths = layout.render().map((row) => row.length)
+                verify(widths.every((width) => width === layout.width), `kerning ${kern}: measured ${layout.width}, rendered ${widths.join(",")}`)
+            })
+        },
+    })
+
+export const checkFonts = (): Promise<void> =>
+    runChecks("fonts", {
+        "code tags are read as decimal, octal and hex": () => {
+            const expected: [string, number][] = [["176", 176], ["0251", 0o251], ["0x2192", 0x2192], ["0X1f642", 0x1f642], ["0", 0], ["-0x10", -16]]
+            expected.forEach(([tag, code]) => verify(FigletFontLoader.parseCode(tag) === code, `${tag}: expected ${code}, got ${FigletFontLoader.parseCode(tag)}`))
+            ;["089", "0xg", "12a", ""].forEach((tag) => verify(FigletFontLoader.parseCode(tag) === null, `${tag} is not a valid code tag`))
+        },
+        "small.flf loads its German and code-tagged glyphs": () => {
+            const font = new FigletFontLoader().load("small.flf")
+            const glyph = (char: string): string => (font.glyph(char) ?? ["<missing>"]).join("|")
+            verify(glyph("Ä") === "o_o||_||| |", `unexpected Ä: ${glyph("Ä")}`)
+            verify(glyph("ß") === " _ || )|| )", `unexpected ß: ${glyph("ß")}`)
+            verify(glyph("\u00a9") === " _ |(c)| - ", `octal 0251 should load as ©, got ${glyph("\u00a9")}`)
+            verify(font.glyph("\u00fb") === null, "octal 0251 must not be read as decimal 251")
+            verify(glyph("\u00b0") === "o| | ", `decimal 176 should load as °, got ${glyph("\u00b0")}`)
+            verify(glyph("\u2192") === "   |-->|   ", `hex 0x2192 should load as an arrow, got ${glyph("\u2192")}`)
+            verify(glyph("\u{1f642}") === "   |:-)|   ", `0x1F642 should load beyond the BMP, got ${glyph("\u{1f642}")}`)
+        },
+        "code-tagged glyphs render through the printer": () => {
+            const rows = Printer.measure("\u00a9\u{1f642}", { font: "small.flf", maxWidth: Infinity }).render()
+            verify(rows.join("|") === " _     |(c) :-)| -     ", `unexpected rows ${JSON.stringify(rows)}`)
+        },
+    })
+
+const snapshotBanner = (): Canvas => {
+    const canvas = new Canvas(20)
+    Printer.print("Hi", new Style({ foreground: Palette.hex("#ff5f00"), bold: true }), { x: 1, y: 1 }, "*", { font: "small.flf", target: canvas })
+    canvas.writeRow({ x: 2, y: 4 }, [
+        { char: "<", style: { foreground: null, background: Palette.rgb(0, 0, 255), bold: false, underline: true } },
+        { char: "&", style: null },
+    ])
+    return canvas
+}
+
+const verifySnapshot = (actual: string, expected: string[]): void => {
+    const wanted = expected.join("\n")
+    verify(actual === wanted, `expected\n${JSON.stringify(wanted)}\ngot\n${JSON.stringify(actual)}`)
+}
+
+export const checkExporters = (): Promise<void> =>
+    runChecks("exporters", {
+        "plain text keeps the glyphs and trims trailing blanks": () => {
+            verifySnapshot(snapshotBanner().export(new PlainTextExporter()), ["", "|_| o", "| | |", " <&"])
+        },
+        "ansi text colors runs and resets every line": () => {
+            verifySnapshot(snapshotBanner().export(new AnsiTextExporter(ColorSupport.Ansi256)), [
+                "\x1b[0;1;38;5;202m\x1b[0m",
+                "\x1b[0;1;38;5;202m|_| o\x1b[0m",
+                "\x1b[0;1;38;5;202m| | |\x1b[0m",
+                "\x1b[0m \x1b[0;4;48;5;21m<\x1b[0m&\x1b[0m",
+            ])
+        },
+        "svg draws backgrounds and escapes text": () => {
+            verifySnapshot(snapshotBanner().export(new SvgExporter()), [
+                `<svg xmlns="http://www.w3.org/2000/svg" width="50" height="72" viewBox="0 0 50 72">`,
+                `  <rect width="100%" height="100%" fill="#1e1e1e"/>`,
+                `  <g font-family="monospace" font-size="16" xml:space="preserve">`,
+                `    <rect x="10" y="54" width="10" height="18" fill="#0000ff"/>`,
+                `    <text x="0" y="14" textLength="50"><tspan fill="#ff5f00" font-weight="bold">     </tspan></text>`,
+                `    <text x="0" y="32" textLength="50"><tspan fill="#ff5f00" font-weight="bold">|_| o</tspan></text>`,
+                `    <text x="0" y="50" textLength="50"><tspan fill="#ff5f00" font-weight="bold">| | |</tspan></text>`,
+                `    <text x="0" y="68" textLength="50"><tspan fill="#e5e5e5"> </tspan><tspan fill="#e5e5e5" text-decoration="underline">&lt;</tspan><tspan fill="#e5e5e5">&amp;  </tspan></text>`,
+                "  </g>",
+                "</svg>",
+            ])
+        },
+        "html styles runs and escapes text": () => {
+            verifySnapshot(snapshotBanner().export(new HtmlExporter()), [
+                `<pre style="background: #1e1e1e; color: #e5e5e5; font-family: monospace; line-height: 1">`,
+                `<span style="color: #ff5f00; font-weight: bold">     </span>`,
+                `<span style="color: #ff5f00; font-weight: bold">|_| o</span>`,
+                `<span style="color: #ff5f00; font-weight: bold">| | |</span>`,
+                ` <span style="background-color: #0000ff; text-decoration: underline">&lt;</span>&amp;  `,
+                "</pre>",
+            ])
+        },
+    })
+
+export const runLabChecks = async (): Promise<void> => {
+    const cwd = process.cwd()
+    process.chdir(__dirname)
+    try {
+        await checkFonts()
+        await checkLayout()
+        await checkExporters()
+        await checkAnimation()
+    } finally {
+        process.chdir(cwd)
+    }
+}
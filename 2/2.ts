@@ -12,11 +12,459 @@ enum Color {
     White = "\x1b[37m",
 }
 
+enum ColorSupport {
+    None,
+    Basic,
+    Ansi256,
+    TrueColor,
+}
+
+type Rgb = { r: number; g: number; b: number }
+type Ansi256 = { ansi256: number }
+type ColorSpec = Color | Rgb | Ansi256
+type Gradient = { from: ColorSpec; to: ColorSpec; direction?: "horizontal" | "vertical" }
+
+type StyleOptions = {
+    foreground?: ColorSpec
+    background?: ColorSpec
+    gradient?: Gradient
+    bold?: boolean
+    underline?: boolean
+}
+
+type CellStyle = {
+    foreground: ColorSpec | null
+    background: ColorSpec | null
+    bold: boolean
+    underline: boolean
+}
+
+const BASIC_COLORS: Color[] = [Color.Black, Color.Red, Color.Green, Color.Yellow, Color.Blue, Color.Magenta, Color.Cyan, Color.White]
+
+const BASIC_RGB: Rgb[] = [
+    { r: 0, g: 0, b: 0 },
+    { r: 205, g: 49, b: 49 },
+    { r: 13, g: 188, b: 121 },
+    { r: 229, g: 229, b: 16 },
+    { r: 36, g: 114, b: 200 },
+    { r: 188, g: 63, b: 188 },
+    { r: 17, g: 168, b: 205 },
+    { r: 229, g: 229, b: 229 },
+]
+
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255]
+
+class Palette {
+    static rgb(r: number, g: number, b: number): Rgb {
+        return { r, g, b }
+    }
+
+    static hex(value: string): Rgb {
+        const match = /^#?([0-9a-f]{6})$/i.exec(value)
+        if (!match) throw new Error(`Invalid hex color: ${value}`)
+        const n = parseInt(match[1], 16)
+        return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 }
+    }
+
+    static ansi256(index: number): Ansi256 {
+        if (!Number.isInteger(index) || index < 0 || index > 255) throw new Error(`Invalid 256-color index: ${index}`)
+        return { ansi256: index }
+    }
+
+    static toRgb(color: ColorSpec): Rgb {
+        if (typeof color === "string") return BASIC_RGB[BASIC_COLORS.indexOf(color)]
+        if ("r" in color) return color
+
+        const index = color.ansi256
+        if (index < 16) {
+            const base = BASIC_RGB[index % 8]
+            return index < 8 ? base : { r: Math.min(255, base.r + 40), g: Math.min(255, base.g + 40), b: Math.min(255, base.b + 40) }
+        }
+        if (index >= 232) {
+            const level = 8 + (index - 232) * 10
+            return { r: level, g: level, b: level }
+        }
+        const cube = index - 16
+        return { r: CUBE_LEVELS[Math.floor(cube / 36)], g: CUBE_LEVELS[Math.floor(cube / 6) % 6], b: CUBE_LEVELS[cube % 6] }
+    }
+
+    static toHex(color: ColorSpec): string {
+        const { r, g, b } = Palette.toRgb(color)
+        return "#" + [r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")
+    }
+
+    static toAnsi256(color: ColorSpec): number {
+        if (typeof color === "string") return BASIC_COLORS.indexOf(color)
+        if ("ansi256" in color) return color.ansi256
+
+        const nearestLevel = (channel: number): number => CUBE_LEVELS.reduce((best, level, i) => (Math.abs(level - channel) < Math.abs(CUBE_LEVELS[best] - channel) ? i : best), 0)
+        const cube = 16 + 36 * nearestLevel(color.r) + 6 * nearestLevel(color.g) + nearestLevel(color.b)
+        const gray = 232 + Math.min(23, Math.max(0, Math.round(((color.r + color.g + color.b) / 3 - 8) / 10)))
+        return Palette.distance(Palette.toRgb({ ansi256: gray }), color) < Palette.distance(Palette.toRgb({ ansi256: cube }), color) ? gray : cube
+    }
+
+    static toBasic(color: ColorSpec): number {
+        if (typeof color === "string") return BASIC_COLORS.indexOf(color)
+        const rgb = Palette.toRgb(color)
+        return BASIC_RGB.reduce((best, candidate, i) => (Palette.distance(candidate, rgb) < Palette.distance(BASIC_RGB[best], rgb) ? i : best), 0)
+    }
+
+    static mix(from: ColorSpec, to: ColorSpec, t: number): Rgb {
+        const a = Palette.toRgb(from)
+        const b = Palette.toRgb(to)
+        return { r: Math.round(a.r + (b.r - a.r) * t), g: Math.round(a.g + (b.g - a.g) * t), b: Math.round(a.b + (b.b - a.b) * t) }
+    }
+
+    static detectSupport(stream: NodeJS.WriteStream = process.stdout, env: NodeJS.ProcessEnv = process.env): ColorSupport {
+        if (env.NO_COLOR !== undefined && env.NO_COLOR !== "") return ColorSupport.None
+        if (env.FORCE_COLOR === "0") return ColorSupport.None
+        if (!stream.isTTY && env.FORCE_COLOR === undefined) return ColorSupport.None
+        if (env.TERM === "dumb") return ColorSupport.None
+
+        const colorterm = (env.COLORTERM ?? "").toLowerCase()
+        if (colorterm === "truecolor" || colorterm === "24bit" || env.FORCE_COLOR === "3") return ColorSupport.TrueColor
+        if ((env.TERM ?? "").includes("256") || env.FORCE_COLOR === "2") return ColorSupport.Ansi256
+        return ColorSupport.Basic
+    }
+
+    static sgr(style: CellStyle | null, support: ColorSupport): string {
+        if (!style || support === ColorSupport.None) return ""
+
+        const codes = ["0"]
+        if (style.bold) codes.push("1")
+        if (style.underline) codes.push("4")
+
+        const colorCode = (color: ColorSpec, base: number): string => {
+            if (support === ColorSupport.TrueColor && typeof color !== "string") {
+                const { r, g, b } = Palette.toRgb(color)
+                return `${base + 8};2;${r};${g};${b}`
+            }
+            if (support >= ColorSupport.Ansi256 && typeof color !== "string") {
+                return `${base + 8};5;${Palette.toAnsi256(color)}`
+            }
+            return `${base + Palette.toBasic(color)}`
+        }
+
+        if (style.foreground !== null) codes.push(colorCode(style.foreground, 30))
+        if (style.background !== null) codes.push(colorCode(style.background, 40))
+        return `\x1b[${codes.join(";")}m`
+    }
+
+    private static distance(a: Rgb, b: Rgb): number {
+        return (a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2
+    }
+}
+
+class Style {
+    constructor(private readonly options: StyleOptions = {}) {}
+
+    static from(style: Color | Style | StyleOptions): Style {
+        if (style instanceof Style) return style
+        if (typeof style === "string") return new Style({ foreground: style })
+        return new Style(style)
+    }
+
+    with(options: StyleOptions): Style {
+        return new Style({ ...this.options, ...options })
+    }
+
+    at(column: number, row: number, width: number, height: number): CellStyle {
+        const { foreground, background, gradient, bold, underline } = this.options
+        let color = foreground ?? null
+
+        if (gradient) {
+            const vertical = gradient.direction === "vertical"
+            const span = (vertical ? height : width) - 1
+            const t = span > 0 ? (vertical ? row : column) / span : 0
+            color = Palette.mix(gradient.from, gradient.to, Math.min(1, Math.max(0, t)))
+        }
+
+        return { foreground: color, background: background ?? null, bold: bold ?? false, underline: underline ?? false }
+    }
+}
+
 type Position = { x: number; y: number }
 type FontData = { [key: string]: string[] }
+type Alignment = "left" | "center" | "right"
+
+type LayoutOptions = {
+    maxWidth?: number
+    align?: Alignment
+    letterSpacing?: number
+    lineSpacing?: number
+    kerning?: { [pair: string]: number }
+    fallback?: string | null
+}
+
+type PrintOptions = LayoutOptions & { font?: string; target?: IRenderTarget }
+
+type LayoutLine = { text: string; width: number; offset: number }
+
+class Font {
+    private readonly glyphs: FontData = {}
+
+    constructor(readonly name: string, glyphs: FontData, readonly height: number = Object.values(glyphs)[0]?.length || 0) {
+        for (const [char, rows] of Object.entries(glyphs)) {
+            const width = Math.max(0, ...rows.map((row) => row.length))
+            this.glyphs[char] = Array.from({ length: height }, (_, i) => (rows[i] ?? "").padEnd(width))
+        }
+    }
+
+    get characters(): string[] {
+        return Object.keys(this.glyphs)
+    }
+
+    glyph(char: string): string[] | null {
+        const rows = this.glyphs[char] ?? this.glyphs[char.toUpperCase()] ?? this.glyphs[char.toLowerCase()]
+        if (rows) return rows
+        if (char === " ") return new Array(this.height).fill(" ")
+        return null
+    }
+}
+
+interface IFontLoader {
+    canLoad(fontPath: string): boolean
+    load(fontPath: string): Font
+}
+
+class JsonFontLoader implements IFontLoader {
+    canLoad(fontPath: string): boolean {
+        return path.extname(fontPath).toLowerCase() === ".json"
+    }
+
+    load(fontPath: string): Font {
+        const glyphs: FontData = JSON.parse(fs.readFileSync(fontPath, "utf-8"))
+        return new Font(path.basename(fontPath), glyphs)
+    }
+}
+
+class FigletFontLoader implements IFontLoader {
+    private static readonly GERMAN_CODES = [196, 214, 220, 228, 246, 252, 223]
+
+    canLoad(fontPath: string): boolean {
+        return path.extname(fontPath).toLowerCase() === ".flf"
+    }
+
+    static parseCode(tag: string): number | null {
+        const match = /^(-)?(?:0x([0-9a-f]+)|(0[0-7]*)|([1-9][0-9]*))$/i.exec(tag)
+        if (!match) return null
+        const [, sign, hex, octal, decimal] = match
+        const code = hex !== undefined ? parseInt(hex, 16) : octal !== undefined ? parseInt(octal, 8) : parseInt(decimal, 10)
+        return sign ? -code : code
+    }
+
+    load(fontPath: string): Font {
+        const lines = fs.readFileSync(fontPath, "utf-8").split(/\r?\n/)
+        const header = lines[0].split(" ")
+        if (!header[0].startsWith("flf2a")) {
+            throw new Error(`Не FIGlet-шрифт: ${fontPath}`)
+        }
+
+        const hardblank = header[0].charAt(5)
+        const height = parseInt(header[1], 10)
+        const commentLines = parseInt(header[5], 10) || 0
+        const glyphs: FontData = {}
+        let cursor = 1 + commentLines
+
+        const readGlyph = (): string[] | null => {
+            if (cursor + height > lines.length) return null
+            const rows = lines.slice(cursor, cursor + height).map((row) => {
+                const endmark = row.charAt(row.length - 1)
+                let end = row.length
+                while (end > 0 && row.charAt(end - 1) === endmark) end--
+                return row.slice(0, end).split(hardblank).join(" ")
+            })
+            cursor += height
+            return rows
+        }
+
+        const codes: number[] = []
+        for (let code = 32; code <= 126; code++) codes.push(code)
+        for (const code of [...codes, ...FigletFontLoader.GERMAN_CODES]) {
+            const rows = readGlyph()
+            if (!rows) break
+            glyphs[String.fromCodePoint(code)] = rows
+        }
+
+        while (cursor < lines.length) {
+            const tag = lines[cursor].trim()
+            cursor++
+            if (!tag) continue
+            const code = FigletFontLoader.parseCode(tag.split(/\s+/)[0])
+            const rows = readGlyph()
+            if (!rows) break
+            if (code !== null && code >= 0 && code <= 0x10ffff) glyphs[String.fromCodePoint(code)] = rows
+        }
+
+        return new Font(path.basename(fontPath), glyphs, height)
+    }
+}
+
+class FontCache {
+    private static readonly loaders: IFontLoader[] = [new JsonFontLoader(), new FigletFontLoader()]
+    private static readonly fonts = new Map<string, Font>()
+
+    static registerLoader(loader: IFontLoader): void {
+        this.loaders.unshift(loader)
+    }
+
+    static get(fontPath: string): Font {
+        const resolved = path.resolve(fontPath)
+        const cached = this.fonts.get(resolved)
+        if (cached) return cached
+
+        let font: Font
+        try {
+            const loader = this.loaders.find((candidate) => candidate.canLoad(resolved))
+            if (!loader) throw new Error(`Неизвестный формат шрифта: ${fontPath}`)
+            font = loader.load(resolved)
+        } catch (error) {
+            console.error(`Ошибка загрузки файла шрифта: ${error}`)
+            font = new Font(path.basename(fontPath), {})
+        }
+
+        this.fonts.set(resolved, font)
+        return font
+    }
+}
+
+const placeGlyphs = (chars: string[], font: Font, letterSpacing: number, kerning: { [pair: string]: number }): { positions: number[]; width: number } => {
+    const positions: number[] = []
+    let width = 0
+    let x = 0
+    chars.forEach((char, index) => {
+        const glyphWidth = font.glyph(char)![0].length
+        if (index > 0) {
+            const previousWidth = font.glyph(chars[index - 1])![0].length
+            x += previousWidth + Math.max(-previousWidth, letterSpacing + (kerning[chars[index - 1] + char] ?? 0))
+        }
+        positions.push(x)
+        width = Math.max(width, x + glyphWidth)
+    })
+    return { positions, width }
+}
+
+class TextLayout {
+    private constructor(
+        private readonly font: Font,
+        readonly lines: LayoutLine[],
+        readonly width: number,
+        readonly height: number,
+        readonly glyphHeight: number,
+        readonly letterSpacing: number,
+        readonly lineSpacing: number,
+        private readonly kerning: { [pair: string]: number }
+    ) {}
+
+    static create(text: string, font: Font, options: LayoutOptions = {}): TextLayout {
+        const letterSpacing = options.letterSpacing ?? 1
+        const lineSpacing = options.lineSpacing ?? 1
+        const align = options.align ?? "left"
+        const kerning = options.kerning ?? {}
+        const maxWidth = Math.max(1, options.maxWidth ?? process.stdout.columns ?? 80)
+        const fallback = options.fallback === undefined ? "?" : options.fallback
+        const glyphHeight = font.height
+
+        const measure = (line: string): number => placeGlyphs(Array.from(line), font, letterSpacing, kerning).width
+
+        const wrapped: string[] = []
+        const resolve = (char: string): string => {
+            if (font.glyph(char)) return char
+            return fallback !== null && font.glyph(fallback) ? fallback : ""
+        }
+
+        for (const paragraph of text.split("\n")) {
+            const words = Array.from(paragraph)
+                .map(resolve)
+                .join("")
+                .split(" ")
+                .filter((word) => word.length > 0)
+            let current = ""
+
+            for (const word of words) {
+                const candidate = current ? `${current} ${word}` : word
+                if (measure(candidate) <= maxWidth) {
+                    current = candidate
+                    continue
+                }
+                if (current) wrapped.push(current)
+
+                current = ""
+                for (const char of Array.from(word)) {
+                    if (current && measure(current + char) > maxWidth) {
+                        wrapped.push(current)
+                        current = ""
+                    }
+                    current += char
+                }
+            }
+            wrapped.push(current)
+        }
+
+        const widths = wrapped.map(measure)
+        const widest = Math.max(0, ...widths)
+        const boxWidth = align === "left" || !Number.isFinite(maxWidth) ? widest : Math.max(widest, maxWidth)
+        const lines = wrapped.map((line, index) => {
+            const free = boxWidth - widths[index]
+            const offset = align === "center" ? Math.floor(free / 2) : align === "right" ? free : 0
+            return { text: line, width: widths[index], offset }
+        })
+        const height = lines.length * glyphHeight + Math.max(0, lines.length - 1) * lineSpacing
+
+        return new TextLayout(font, lines, boxWidth, height, glyphHeight, letterSpacing, lineSpacing, kerning)
+    }
+
+    render(symbol: string = "*"): string[] {
+        const rows: string[] = []
+        this.lines.forEach((line, lineIndex) => {
+            if (lineIndex > 0) {
+                for (let i = 0; i < this.lineSpacing; i++) rows.push("")
+            }
+            const chars = Array.from(line.text)
+            const { positions, width } = placeGlyphs(chars, this.font, this.letterSpacing, this.kerning)
+            for (let i = 0; i < this.glyphHeight; i++) {
+                const cells: string[] = new Array(width).fill(" ")
+                chars.forEach((char, index) => {
+                    Array.from(this.font.glyph(char)![i]).forEach((pixel, column) => {
+                        if (pixel !== " ") cells[positions[index] + column] = pixel === "*" ? symbol : pixel
+                    })
+                })
+                rows.push(" ".repeat(line.offset) + cells.join(""))
+            }
+        })
+        return rows
+    }
+}
+
+interface IRenderTarget {
+    readonly columns: number
+    begin(): void
+    clearRows(y: number, count: number): void
+    writeRow(position: Position, cells: Cell[]): void
+    end(): void
+}
+
+type Cell = { char: string; style: CellStyle | null }
+
+const styleKey = (style: CellStyle | null): string => (style ? JSON.stringify(style) : "")
+
+const styleRuns = (cells: Cell[]): { text: string; style: CellStyle | null }[] => {
+    const runs: { text: string; style: CellStyle | null }[] = []
+    for (const cell of cells) {
+        const last = runs[runs.length - 1]
+        const blank = cell.char === " " && !cell.style?.background && !cell.style?.underline
+        const style = blank && last ? last.style : cell.style
+        if (last && styleKey(last.style) === styleKey(style)) last.text += cell.char
+        else runs.push({ text: cell.char, style })
+    }
+    return runs
+}
+
+type TerminalOutput = { readonly columns?: number; write(chunk: string): unknown }
+
+class TerminalTarget implements IRenderTarget {
+    static readonly instance = new TerminalTarget()
 
-class Printer {
-    private static fontData: FontData | null = null
     private static readonly RESET_COLOR = "\x1b[0m"
     private static readonly HIDE_CURSOR = "\x1b[?25l"
     private static readonly SHOW_CURSOR = "\x1b[?25h"
@@ -24,77 +472,526 @@ class Printer {
     private static readonly SAVE_CURSOR = "\x1b[s"
     private static readonly RESTORE_CURSOR = "\x1b[u"
 
-    private readonly color: Color
-    private readonly position: Position
-    private readonly symbol: string
-    private lastHeight: number = 0
+    constructor(readonly support: ColorSupport = Palette.detectSupport(), private output: TerminalOutput = process.stdout) {}
 
-    constructor(color: Color, position: Position, symbol: string = "*") {
-        this.color = color
-        this.position = position
-        this.symbol = symbol.charAt(0) || "*"
+    get columns(): number {
+        return this.output.columns ?? 80
     }
 
-    private static loadFont(fontPath: string): void {
-        try {
-            const rawData = fs.readFileSync(path.resolve(fontPath), "utf-8")
-            this.fontData = JSON.parse(rawData)
-        } catch (error) {
-            console.error(`Ошибка загрузки файла шрифта: ${error}`)
-            this.fontData = {}
+    begin(): void {
+        this.output.write(TerminalTarget.SAVE_CURSOR + TerminalTarget.HIDE_CURSOR)
+    }
+
+    clearRows(y: number, count: number): void {
+        for (let i = 0; i < count; i++) {
+            this.output.write(`\x1b[${y + i};1H${TerminalTarget.CLEAR_LINE}`)
+        }
+    }
+
+    writeRow(position: Position, cells: Cell[]): void {
+        this.output.write(`\x1b[${position.y};${position.x}H`)
+        this.output.write(styleRuns(cells).map((run) => Palette.sgr(run.style, this.support) + run.text).join(""))
+    }
+
+    end(): void {
+        const reset = this.support === ColorSupport.None ? "" : TerminalTarget.RESET_COLOR
+        this.output.write(TerminalTarget.RESTORE_CURSOR + reset + TerminalTarget.SHOW_CURSOR)
+    }
+}
+
+class Canvas implements IRenderTarget {
+    private cells: Cell[][] = []
+
+    constructor(readonly columns: number = 80, readonly maxRows: number = Infinity) {}
+
+    get width(): number {
+        return Math.max(0, ...this.cells.map((row) => row.length))
+    }
+
+    get height(): number {
+        return this.cells.length
+    }
+
+    begin(): void {}
+
+    end(): void {}
+
+    clear(): void {
+        this.cells = []
+    }
+
+    clearRows(y: number, count: number): void {
+        for (let i = 0; i < count; i++) {
+            if (this.cells[y - 1 + i]) this.cells[y - 1 + i] = []
         }
     }
 
-    private static internalPrint(text: string, color: Color, position: Position, symbol: string): number {
-        if (!this.fontData) {
-            this.loadFont("font.json")
+    writeRow(position: Position, cells: Cell[]): void {
+        const y = position.y - 1
+        if (y < 0 || y >= this.maxRows) return
+
+        while (this.cells.length <= y) this.cells.push([])
+        const row = this.cells[y]
+        cells.forEach((cell, i) => {
+            const x = position.x - 1 + i
+            if (x < 0 || x >= this.columns) return
+            while (row.length < x) row.push({ char: " ", style: null })
+            row[x] = cell
+        })
+    }
+
+    cell(x: number, y: number): Cell {
+        return this.cells[y]?.[x] ?? { char: " ", style: null }
+    }
+
+    getRows(): Cell[][] {
+        const width = this.width
+        return this.cells.map((_, y) => Array.from({ length: width }, (_, x) => this.cell(x, y)))
+    }
+
+    export(exporter: ICanvasExporter): string {
+        return exporter.export(this)
+    }
+}
+
+interface ICanvasExporter {
+    export(canvas: Canvas): string
+}
+
+const DEFAULT_FOREGROUND = "#e5e5e5"
+
+const escapeMarkup = (text: string): string => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+class PlainTextExporter implements ICanvasExporter {
+    export(canvas: Canvas): string {
+        return canvas
+            .getRows()
+            .map((row) => row.map((cell) => cell.char).join("").trimEnd())
+            .join("\n")
+    }
+}
+
+class AnsiTextExporter implements ICanvasExporter {
+    private static readonly RESET_COLOR = "\x1b[0m"
+
+    constructor(private support: ColorSupport = ColorSupport.TrueColor) {}
+
+    export(canvas: Canvas): string {
+        const reset = this.support === ColorSupport.None ? "" : AnsiTextExporter.RESET_COLOR
+        return canvas
+            .getRows()
+            .map((row) => {
+                const line = styleRuns(row)
+                    .map((run) => (Palette.sgr(run.style, this.support) || reset) + run.text)
+                    .join("")
+                return line.trimEnd() + reset
+            })
+            .join("\n")
+    }
+}
+
+class SvgExporter implements ICanvasExporter {
+    constructor(private cellWidth: number = 10, private cellHeight: number = 18, private background: string = "#1e1e1e") {}
+
+    export(canvas: Canvas): string {
+        const width = canvas.width * this.cellWidth
+        const height = canvas.height * this.cellHeight
+        const backgrounds: string[] = []
+        const lines = canvas.getRows().map((row, y) => {
+            let x = 0
+            const spans = styleRuns(row)
+                .map((run) => {
+                    const style = run.style
+                    if (style?.background) {
+                        backgrounds.push(
+                            `    <rect x="${x * this.cellWidth}" y="${y * this.cellHeight}" width="${run.text.length * this.cellWidth}" height="${this.cellHeight}" fill="${Palette.toHex(style.background)}"/>`
+                        )
+                    }
+                    x += run.text.length
+                    const fill = style?.foreground ? Palette.toHex(style.foreground) : DEFAULT_FOREGROUND
+                    const weight = style?.bold ? ` font-weight="bold"` : ""
+                    const decoration = style?.underline ? ` text-decoration="underline"` : ""
+                    return `<tspan fill="${fill}"${weight}${decoration}>${escapeMarkup(run.text)}</tspan>`
+                })
+                .join("")
+            return `    <text x="0" y="${(y + 1) * this.cellHeight - 4}" textLength="${row.length * this.cellWidth}">${spans}</text>`
+        })
+
+        return [
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+            `  <rect width="100%" height="100%" fill="${this.background}"/>`,
+            `  <g font-family="monospace" font-size="${this.cellHeight - 2}" xml:space="preserve">`,
+            ...backgrounds,
+            ...lines,
+            "  </g>",
+            "</svg>",
+        ].join("\n")
+    }
+}
+
+class HtmlExporter implements ICanvasExporter {
+    constructor(private background: string = "#1e1e1e") {}
+
+    export(canvas: Canvas): string {
+        const body = canvas
+            .getRows()
+            .map((row) =>
+                styleRuns(row)
+                    .map((run) => {
+                        const style = run.style
+                        if (!style) return escapeMarkup(run.text)
+                        const css: string[] = []
+                        if (style.foreground) css.push(`color: ${Palette.toHex(style.foreground)}`)
+                        if (style.background) css.push(`background-color: ${Palette.toHex(style.background)}`)
+                        if (style.bold) css.push("font-weight: bold")
+                        if (style.underline) css.push("text-decoration: underline")
+                        return css.length ? `<span style="${css.join("; ")}">${escapeMarkup(run.text)}</span>` : escapeMarkup(run.text)
+                    })
+                    .join("")
+            )
+            .join("\n")
+        return `<pre style="background: ${this.background}; color: ${DEFAULT_FOREGROUND}; font-family: monospace; line-height: 1">\n${body}\n</pre>`
+    }
+}
+
+type PrinterScopeOptions = { color: Color | Style | StyleOptions; position: Position; symbol?: string; layout?: PrintOptions; target?: IRenderTarget }
+
+class SignalGuard {
+    static install(cleanup: () => void, signal: NodeJS.Signals = "SIGINT"): () => void {
+        const onSignal = (): void => {
+            cleanup()
+            process.exit(130)
+        }
+        process.once(signal, onSignal)
+        return () => {
+            process.removeListener(signal, onSignal)
         }
+    }
+}
+
+interface IClock {
+    now(): number
+    schedule(callback: () => void, delay: number): unknown
+    cancel(handle: unknown): void
+}
+
+class SystemClock implements IClock {
+    static readonly instance = new SystemClock()
+
+    now(): number {
+        return Date.now()
+    }
+
+    schedule(callback: () => void, delay: number): unknown {
+        return setTimeout(callback, delay)
+    }
+
+    cancel(handle: unknown): void {
+        clearTimeout(handle as NodeJS.Timeout)
+    }
+}
+
+class ManualClock implements IClock {
+    private time: number = 0
+    private nextId: number = 0
+    private tasks: { id: number; at: number; callback: () => void }[] = []
 
-        const charHeight = this.fontData ? Object.values(this.fontData)[0]?.length || 0 : 0
-        if (charHeight === 0) return 0
+    now(): number {
+        return this.time
+    }
 
-        const upperText = text.toUpperCase()
+    schedule(callback: () => void, delay: number): unknown {
+        const id = this.nextId++
+        this.tasks.push({ id, at: this.time + Math.max(0, delay), callback })
+        return id
+    }
 
-        process.stdout.write(this.SAVE_CURSOR + this.HIDE_CURSOR)
+    cancel(handle: unknown): void {
+        this.tasks = this.tasks.filter((task) => task.id !== handle)
+    }
 
-        for (let i = 0; i < charHeight; i++) {
-            process.stdout.write(`\x1b[${position.y + i};${position.x}H${this.CLEAR_LINE}`)
+    advance(ms: number): void {
+        const until = this.time + ms
+        for (;;) {
+            const due = this.tasks.filter((task) => task.at <= until).sort((a, b) => a.at - b.at || a.id - b.id)[0]
+            if (!due) break
+            this.tasks = this.tasks.filter((task) => task !== due)
+            this.time = due.at
+            due.callback()
         }
+        this.time = until
+    }
+}
 
-        for (let i = 0; i < charHeight; i++) {
-            process.stdout.write(`\x1b[${position.y + i};${position.x}H`)
-            let lineOutput = ""
-            for (const char of upperText) {
-                const template = this.fontData?.[char]
-                if (template) {
-                    lineOutput += template[i].replace(/\*/g, symbol) + " "
-                }
+class FrameScheduler {
+    private handle: unknown = null
+    private startedAt: number = 0
+    private frame: number = 0
+
+    constructor(readonly fps: number = 30, private clock: IClock = SystemClock.instance) {
+        if (!(fps > 0)) throw new Error("FPS must be positive")
+    }
+
+    get interval(): number {
+        return 1000 / this.fps
+    }
+
+    get running(): boolean {
+        return this.handle !== null
+    }
+
+    start(onFrame: (frame: number, elapsed: number) => boolean | void): void {
+        this.stop()
+        this.startedAt = this.clock.now()
+        this.frame = 0
+
+        const tick = (): void => {
+            const elapsed = this.clock.now() - this.startedAt
+            if (onFrame(this.frame, elapsed) === false) {
+                this.stop()
+                return
             }
-            process.stdout.write(color + lineOutput)
+            if (this.handle === null) return
+
+            this.frame++
+            const nextAt = this.startedAt + this.frame * this.interval
+            this.handle = this.clock.schedule(tick, nextAt - this.clock.now())
+        }
+
+        this.handle = this.clock.schedule(tick, 0)
+    }
+
+    stop(): void {
+        if (this.handle !== null) {
+            this.clock.cancel(this.handle)
+            this.handle = null
+        }
+    }
+}
+
+type EffectFrame = { text: string; style: Style; visible: boolean; scroll: number; window: number | null }
+
+interface IBannerEffect {
+    frame(index: number, base: EffectFrame): EffectFrame | null
+}
+
+class TypewriterEffect implements IBannerEffect {
+    constructor(private charsPerFrame: number = 1, private holdFrames: number = 0) {}
+
+    frame(index: number, base: EffectFrame): EffectFrame | null {
+        const chars = Array.from(base.text)
+        const shown = Math.min(chars.length, index * this.charsPerFrame)
+        if (shown === chars.length && index * this.charsPerFrame - chars.length > this.holdFrames * this.charsPerFrame) return null
+        return { ...base, text: chars.slice(0, shown).join("") }
+    }
+}
+
+class BlinkEffect implements IBannerEffect {
+    constructor(private periodFrames: number = 10, private times: number = Infinity) {}
+
+    frame(index: number, base: EffectFrame): EffectFrame | null {
+        const phase = Math.floor(index / this.periodFrames)
+        if (phase >= this.times * 2) return null
+        return { ...base, visible: base.visible && phase % 2 === 0 }
+    }
+}
+
+class ColorCycleEffect implements IBannerEffect {
+    constructor(private colors: ColorSpec[], private framesPerColor: number = 5, private cycles: number = Infinity) {
+        if (colors.length === 0) throw new Error("ColorCycleEffect needs at least one color")
+    }
+
+    frame(index: number, base: EffectFrame): EffectFrame | null {
+        const step = Math.floor(index / this.framesPerColor)
+        if (step >= this.cycles * this.colors.length) return null
+        return { ...base, style: base.style.with({ foreground: this.colors[step % this.colors.length], gradient: undefined }) }
+    }
+}
+
+class MarqueeEffect implements IBannerEffect {
+    constructor(private window: number, private step: number = 1, private loops: number = Infinity) {}
+
+    frame(index: number, base: EffectFrame): EffectFrame | null {
+        const scroll = index * this.step
+        if (this.loops !== Infinity && scroll >= this.loops * Printer.measure(base.text, { maxWidth: Infinity }).width) return null
+        return { ...base, scroll, window: this.window }
+    }
+}
+
+class CompositeEffect implements IBannerEffect {
+    constructor(private effects: IBannerEffect[]) {}
+
+    frame(index: number, base: EffectFrame): EffectFrame | null {
+        let current: EffectFrame | null = base
+        for (const effect of this.effects) {
+            if (current === null) break
+            current = effect.frame(index, current)
         }
+        return current
+    }
+}
+
+type AnimationOptions = PrintOptions & { fps?: number; clock?: IClock; symbol?: string; duration?: number; gap?: number }
+
+class BannerAnimation {
+    private readonly style: Style
+    private readonly target: IRenderTarget
+    private readonly scheduler: FrameScheduler
+    private lastHeight: number = 0
+    private release: (() => void) | null = null
+    private finish: ((error?: unknown) => void) | null = null
+
+    constructor(private text: string, style: Color | Style | StyleOptions, private position: Position, private effect: IBannerEffect, private options: AnimationOptions = {}) {
+        this.style = Style.from(style)
+        this.target = options.target ?? TerminalTarget.instance
+        this.scheduler = new FrameScheduler(options.fps ?? 30, options.clock ?? SystemClock.instance)
+    }
+
+    play(): Promise<void> {
+        this.stop()
+        this.target.begin()
+        this.release = SignalGuard.install(() => this.cleanup())
+
+        return new Promise((resolve, reject) => {
+            this.finish = (error) => (error === undefined ? resolve() : reject(error))
+            this.scheduler.start((frame, elapsed) => {
+                if (this.options.duration !== undefined && elapsed >= this.options.duration) {
+                    this.stop()
+                    return false
+                }
+                try {
+                    const next = this.effect.frame(frame, { text: this.text, style: this.style, visible: true, scroll: 0, window: null })
+                    if (next === null) {
+                        this.stop()
+                        return false
+                    }
+                    this.draw(next)
+                } catch (error) {
+                    this.halt(error)
+                    return false
+                }
+            })
+        })
+    }
+
+    stop(): void {
+        this.halt()
+    }
+
+    private halt(error?: unknown): void {
+        if (!this.release) return
+        this.scheduler.stop()
+        this.cleanup()
+        this.release()
+        this.release = null
 
-        process.stdout.write(this.RESTORE_CURSOR + this.RESET_COLOR + this.SHOW_CURSOR)
-        return position.y + 6
+        const finish = this.finish
+        this.finish = null
+        finish?.(error)
     }
 
-    public static print(text: string, color: Color, position: Position, symbol: string = "*"): void {
-        this.internalPrint(text, color, position, symbol.charAt(0) || "*")
+    private cleanup(): void {
+        this.target.end()
+    }
+
+    private draw(frame: EffectFrame): void {
+        const symbol = (this.options.symbol ?? "*").charAt(0) || "*"
+        const layout = Printer.measure(frame.text, { ...this.options, maxWidth: frame.window !== null ? Infinity : this.options.maxWidth ?? this.target.columns - this.position.x + 1 })
+        let rows = layout.render(symbol)
+        let width = layout.width
+
+        if (frame.window !== null) {
+            const window = frame.window
+            const period = layout.width + (this.options.gap ?? 4)
+            const offset = ((frame.scroll % period) + period) % period
+            rows = rows.map((row) => {
+                const padded = row.padEnd(period)
+                return padded.repeat(Math.ceil(window / period) + 1).slice(offset, offset + window)
+            })
+            width = window
+        }
+
+        this.target.clearRows(this.position.y, Math.max(this.lastHeight, rows.length))
+        this.lastHeight = rows.length
+        if (frame.visible) {
+            Printer.drawRows(rows, frame.style, this.position, this.target, width)
+        }
+    }
+}
+
+class Printer {
+    private static readonly DEFAULT_FONT = "font.json"
+
+    private readonly style: Style
+    private readonly position: Position
+    private readonly symbol: string
+    private readonly layout: PrintOptions
+    private lastHeight: number = 0
+
+    constructor(style: Color | Style | StyleOptions, position: Position, symbol: string = "*", layout: PrintOptions = {}) {
+        this.style = Style.from(style)
+        this.position = position
+        this.symbol = symbol.charAt(0) || "*"
+        this.layout = layout
+    }
+
+    private static internalPrint(text: string, style: Style, position: Position, symbol: string, options: PrintOptions = {}): number {
+        const target = options.target ?? TerminalTarget.instance
+        const layout = this.measure(text, { ...options, maxWidth: options.maxWidth ?? target.columns - position.x + 1 })
+        if (layout.glyphHeight === 0) return 0
+
+        target.begin()
+        target.clearRows(position.y, layout.height)
+        this.drawRows(layout.render(symbol), style, position, target, layout.width)
+        target.end()
+
+        return position.y + layout.height + layout.lineSpacing
+    }
+
+    public static drawRows(rows: string[], style: Style, position: Position, target: IRenderTarget, width: number = Math.max(0, ...rows.map((row) => row.length))): void {
+        rows.forEach((row, i) => {
+            const cells = Array.from(row).map((char, column) => ({ char, style: style.at(column, i, width, rows.length) }))
+            target.writeRow({ x: position.x, y: position.y + i }, cells)
+        })
+    }
+
+    public static measure(text: string, options: PrintOptions = {}): TextLayout {
+        return TextLayout.create(text, FontCache.get(options.font ?? this.DEFAULT_FONT), options)
+    }
+
+    public static print(text: string, style: Color | Style | StyleOptions, position: Position, symbol: string = "*", layout: PrintOptions = {}): void {
+        this.internalPrint(text, Style.from(style), position, symbol.charAt(0) || "*", layout)
     }
 
     public print(text: string): void {
-        this.lastHeight = Printer.internalPrint(text, this.color, { x: this.position.x, y: this.lastHeight ? this.lastHeight : this.position.y }, this.symbol)
+        this.lastHeight = Printer.internalPrint(text, this.style, { x: this.position.x, y: this.lastHeight ? this.lastHeight : this.position.y }, this.symbol, this.layout)
     }
 
-    public static using(options: { color: Color; position: Position; symbol?: string }, callback: (printer: Printer) => void): void {
-        process.stdout.write(this.SAVE_CURSOR + this.HIDE_CURSOR)
+    public static using(options: PrinterScopeOptions, callback: (printer: Printer) => void): void
+    public static using(options: PrinterScopeOptions, callback: (printer: Printer) => Promise<void>): Promise<void>
+    public static using(options: PrinterScopeOptions, callback: (printer: Printer) => void | Promise<void>): void | Promise<void> {
+        const target = options.target ?? options.layout?.target ?? TerminalTarget.instance
+        target.begin()
 
-        const printer = new Printer(options.color, options.position, options.symbol)
+        const release = SignalGuard.install(() => target.end())
+        const cleanup = (): void => {
+            release()
+            target.end()
+        }
+        const printer = new Printer(options.color, options.position, options.symbol, { ...options.layout, target })
 
+        let result: void | Promise<void>
         try {
-            callback(printer)
-        } finally {
-            process.stdout.write(this.RESTORE_CURSOR + this.RESET_COLOR + this.SHOW_CURSOR)
+            result = callback(printer)
+        } catch (error) {
+            cleanup()
+            throw error
+        }
+
+        if (result instanceof Promise) {
+            return result.finally(cleanup)
         }
+        cleanup()
     }
 
     public static clearConsole(): void {
@@ -102,18 +999,58 @@ class Printer {
     }
 }
 
+const sunsetStyle = new Style({ gradient: { from: Color.Yellow, to: Palette.rgb(200, 40, 120), direction: "vertical" } })
+
 const demonstrate = () => {
     Printer.clearConsole()
 
     Printer.print("Abc", Color.Yellow, { x: 15, y: 2 }, "@")
     Printer.print("Hi", Color.Cyan, { x: 15, y: 8 }, "#")
 
-    Printer.using({ color: Color.Green, position: { x: 1, y: 15 }, symbol: "+" }, (printer) => {
+    const hi = Printer.measure("Hi")
+    Printer.print("Hi", Color.Magenta, { x: 15 + hi.width + 5, y: 8 }, "o", { letterSpacing: 3, kerning: { HI: -2 } })
+
+    Printer.print("Fonts: 0-9, a-z & more", Color.Blue, { x: 60, y: 2 }, "*", { font: "small.flf" })
+    Printer.print("Lab #2: 100%", new Style({ gradient: { from: Palette.hex("#ff5f6d"), to: Palette.hex("#ffc371") }, bold: true }), { x: 60, y: 6 }, "*")
+    Printer.print("256", { foreground: Palette.ansi256(208), background: Palette.rgb(30, 30, 60), underline: true }, { x: 60, y: 12 }, "#")
+
+    Printer.using({ color: Color.Green, position: { x: 1, y: 15 }, symbol: "+", layout: { align: "center" } }, (printer) => {
         printer.print("What are you doing?")
         printer.print("Huh")
         printer.print("What are you doing?")
         printer.print("Me? Just hanging around")
     })
+
+    const canvas = new Canvas(60)
+    Printer.using({ color: sunsetStyle, position: { x: 1, y: 1 }, symbol: "#", target: canvas }, (printer) => {
+        printer.print("Hello")
+        printer.print("World!")
+    })
+
+    const outputDir = "output"
+    if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true })
+    }
+    fs.writeFileSync(path.join(outputDir, "banner.txt"), canvas.export(new PlainTextExporter()), "utf8")
+    fs.writeFileSync(path.join(outputDir, "banner.ansi"), canvas.export(new AnsiTextExporter()), "utf8")
+    fs.writeFileSync(path.join(outputDir, "banner.svg"), canvas.export(new SvgExporter()), "utf8")
+    fs.writeFileSync(path.join(outputDir, "banner.html"), canvas.export(new HtmlExporter()), "utf8")
 }
 
-demonstrate()
+const demonstrateAnimation = async () => {
+    const rainbow = [Color.Red, Color.Yellow, Color.Green, Color.Cyan, Color.Blue, Color.Magenta]
+
+    await new BannerAnimation("Loading...", Color.Cyan, { x: 1, y: 45 }, new CompositeEffect([new TypewriterEffect(1, 10), new ColorCycleEffect(rainbow, 2)]), { fps: 12 }).play()
+    await new BannerAnimation("Breaking news! ", sunsetStyle, { x: 1, y: 45 }, new MarqueeEffect(60, 2), { fps: 20, duration: 3000, symbol: "#" }).play()
+    await new BannerAnimation("Bye", Color.Red, { x: 1, y: 45 }, new BlinkEffect(5, 3), { fps: 10 }).play()
+}
+
+export { AnimationOptions, AnsiTextExporter, BannerAnimation, BlinkEffect, Canvas, Cell, Color, ColorCycleEffect, ColorSupport, EffectFrame, FigletFontLoader, HtmlExporter, IBannerEffect, ManualClock, MarqueeEffect, Palette, PlainTextExporter, Printer, Style, SvgExporter, TerminalTarget, TypewriterEffect }
+
+if (require.main === module) {
+    demonstrate()
+    demonstrateAnimation().catch((error) => {
+        console.error(error)
+        process.exitCode = 1
+    })
+}
@@ -1,57 +1,245 @@
+type PropertyName<T> = Extract<keyof T, string>
+type PropertyNameOfType<T, V> = { [K in PropertyName<T>]: [T[K]] extends [V] ? ([V] extends [T[K]] ? K : never) : never }[PropertyName<T>]
+
+type PropertyChange<T = any> = {
+    propertyName: PropertyName<T>
+    oldValue: any
+    newValue: any
+}
+
 interface IPropertyChangedListener<T = any> {
-    onPropertyChanged(obj: T, propertyName: string, newValue: any): void
+    onPropertyChanged(obj: T, propertyName: PropertyName<T>, newValue: any, oldValue: any): void
+    onPropertiesChanged?(obj: T, changes: PropertyChange<T>[]): void
 }
 
 interface INotifyDataChanged {
-    addPropertyChangedListener(listener: IPropertyChangedListener): void
-    removePropertyChangedListener(listener: IPropertyChangedListener): void
+    addPropertyChangedListener(listener: IPropertyChangedListener<this>): void
+    removePropertyChangedListener(listener: IPropertyChangedListener<this>): void
 }
 
 class NotifyDataChanged implements INotifyDataChanged {
     private propertyChangedListeners: IPropertyChangedListener[] = []
 
-    addPropertyChangedListener(listener: IPropertyChangedListener): void {
+    addPropertyChangedListener(listener: IPropertyChangedListener<this>): void {
         this.propertyChangedListeners.push(listener)
     }
 
-    removePropertyChangedListener(listener: IPropertyChangedListener): void {
+    removePropertyChangedListener(listener: IPropertyChangedListener<this>): void {
         const index = this.propertyChangedListeners.indexOf(listener)
         if (index !== -1) {
             this.propertyChangedListeners.splice(index, 1)
         }
     }
 
-    protected notifyPropertyChanged(propertyName: string, newValue: any): void {
+    static computedValue<T extends NotifyDataChanged>(owner: T, name: PropertyName<T>, getter: () => unknown): unknown {
+        return ComputedProperty.of(owner, name, getter, (newValue, oldValue) => owner.notifyPropertyChanged(name, newValue, oldValue)).read()
+    }
+
+    protected notifyPropertyChanged(propertyName: PropertyName<this>, newValue: any, oldValue: any): void {
+        this.propertyChangedListeners.forEach((listener) => {
+            listener.onPropertyChanged(this, propertyName, newValue, oldValue)
+        })
+        ComputedProperty.changed(this, propertyName)
+    }
+
+    protected notifyPropertiesChanged(changes: PropertyChange<this>[]): void {
         this.propertyChangedListeners.forEach((listener) => {
-            listener.onPropertyChanged(this, propertyName, newValue)
+            if (listener.onPropertiesChanged) {
+                listener.onPropertiesChanged(this, changes)
+            } else {
+                changes.forEach(({ propertyName, newValue, oldValue }) => listener.onPropertyChanged(this, propertyName, newValue, oldValue))
+            }
         })
+        changes.forEach(({ propertyName }) => ComputedProperty.changed(this, propertyName))
+    }
+}
+
+class ComputedProperty {
+    private static stack: ComputedProperty[] = []
+    private static instances = new WeakMap<object, Map<string, ComputedProperty>>()
+    private static dependents = new WeakMap<object, Map<string, Set<ComputedProperty>>>()
+    private static declared = new WeakMap<object, string[]>()
+
+    private value: unknown = undefined
+    private valid: boolean = false
+    private computing: boolean = false
+    private sources: [object, string][] = []
+
+    constructor(private owner: object, readonly name: string, private getter: () => unknown, private notify: (newValue: unknown, oldValue: unknown) => void) {}
+
+    static declare<T extends object>(owner: T, name: PropertyName<T>): void {
+        const names = ComputedProperty.declared.get(owner) ?? []
+        names.push(name)
+        ComputedProperty.declared.set(owner, names)
+    }
+
+    static declaredOn<T extends object>(owner: T): PropertyName<T>[] {
+        return (ComputedProperty.declared.get(owner) ?? []).filter((name): name is PropertyName<T> => name in owner)
+    }
+
+    static of(owner: object, name: string, getter: () => unknown, notify: (newValue: unknown, oldValue: unknown) => void): ComputedProperty {
+        let properties = ComputedProperty.instances.get(owner)
+        if (!properties) {
+            properties = new Map()
+            ComputedProperty.instances.set(owner, properties)
+        }
+
+        let property = properties.get(name)
+        if (!property) {
+            property = new ComputedProperty(owner, name, getter, notify)
+            properties.set(name, property)
+        }
+        return property
+    }
+
+    static track(source: object, propertyName: string): void {
+        const current = ComputedProperty.stack[ComputedProperty.stack.length - 1]
+        if (current) current.depend(source, propertyName)
+    }
+
+    static isComputed(owner: object, propertyName: string): boolean {
+        return ComputedProperty.instances.get(owner)?.has(propertyName) ?? false
+    }
+
+    static changed(source: object, propertyName: string): void {
+        const dependents = ComputedProperty.dependents.get(source)?.get(propertyName)
+        if (dependents) Array.from(dependents).forEach((property) => property.refresh())
+    }
+
+    read(): unknown {
+        ComputedProperty.track(this.owner, this.name)
+        if (this.computing) {
+            const cycle = ComputedProperty.stack.slice(ComputedProperty.stack.indexOf(this)).map((property) => property.name)
+            throw new Error(`Cyclic dependency between computed properties: ${[...cycle, this.name].join(" -> ")}`)
+        }
+        if (!this.valid) this.compute()
+        return this.value
+    }
+
+    private compute(): void {
+        this.unsubscribe()
+        this.computing = true
+        ComputedProperty.stack.push(this)
+        try {
+            this.value = this.getter.call(this.owner)
+            this.valid = true
+        } finally {
+            ComputedProperty.stack.pop()
+            this.computing = false
+        }
+    }
+
+    private refresh(): void {
+        const oldValue = this.value
+        this.valid = false
+        this.compute()
+        if (this.value !== oldValue) this.notify(this.value, oldValue)
+    }
+
+    private depend(source: object, propertyName: string): void {
+        if (this.sources.some(([known, name]) => known === source && name === propertyName)) return
+        this.sources.push([source, propertyName])
+
+        let properties = ComputedProperty.dependents.get(source)
+        if (!properties) {
+            properties = new Map()
+            ComputedProperty.dependents.set(source, properties)
+        }
+        const dependents = properties.get(propertyName) ?? new Set<ComputedProperty>()
+        dependents.add(this)
+        properties.set(propertyName, dependents)
+    }
+
+    private unsubscribe(): void {
+        this.sources.forEach(([source, propertyName]) => ComputedProperty.dependents.get(source)?.get(propertyName)?.delete(this))
+        this.sources = []
     }
 }
 
 interface IPropertyChangingListener<T = any> {
-    onPropertyChanging(obj: T, propertyName: string, oldValue: any, newValue: any): boolean
+    onPropertyChanging(obj: T, propertyName: PropertyName<T>, oldValue: any, newValue: any): boolean
 }
 
 interface INotifyDataChanging {
-    addPropertyChangingListener(listener: IPropertyChangingListener): void
-    removePropertyChangingListener(listener: IPropertyChangingListener): void
+    addPropertyChangingListener(listener: IPropertyChangingListener<this>): void
+    removePropertyChangingListener(listener: IPropertyChangingListener<this>): void
 }
 
 class NotifyDataChanging extends NotifyDataChanged implements INotifyDataChanging {
+    private static internalProperties: Set<string> | null = null
+    private static proxies = new WeakSet<object>()
+
     private propertyChangingListeners: IPropertyChangingListener[] = []
+    private silent: boolean = false
 
-    addPropertyChangingListener(listener: IPropertyChangingListener): void {
+    static observe<T extends NotifyDataChanging>(instance: T): T {
+        if (NotifyDataChanging.proxies.has(instance)) return instance
+
+        const internal = (NotifyDataChanging.internalProperties ??= new Set(Object.keys(new NotifyDataChanging())))
+        const observed = new Set(Object.keys(instance).filter((key) => !internal.has(key) && typeof Reflect.get(instance, key) !== "function"))
+
+        const proxy = new Proxy(instance, {
+            get: (target, key, receiver) => {
+                if (typeof key === "string" && observed.has(key)) ComputedProperty.track(receiver, key)
+                return Reflect.get(target, key, receiver)
+            },
+            set: (target, key, value, receiver) => {
+                if (typeof key !== "string" || !observed.has(key)) return Reflect.set(target, key, value, receiver)
+                ;(receiver as NotifyDataChanging).setProperty(key as PropertyName<NotifyDataChanging>, value, (accepted) => Reflect.set(target, key, accepted))
+                return true
+            },
+        })
+        NotifyDataChanging.proxies.add(proxy)
+        ComputedProperty.declaredOn(instance).forEach((name) => proxy[name])
+        return proxy
+    }
+
+    addPropertyChangingListener(listener: IPropertyChangingListener<this>): void {
         this.propertyChangingListeners.push(listener)
     }
 
-    removePropertyChangingListener(listener: IPropertyChangingListener): void {
+    removePropertyChangingListener(listener: IPropertyChangingListener<this>): void {
         const index = this.propertyChangingListeners.indexOf(listener)
         if (index !== -1) {
             this.propertyChangingListeners.splice(index, 1)
         }
     }
 
-    protected canChangeProperty(propertyName: string, oldValue: any, newValue: any): boolean {
+    beginTransaction(): PropertyTransaction<this> {
+        return new PropertyTransaction(this)
+    }
+
+    update(values: Partial<Pick<this, PropertyName<this>>>): boolean {
+        const changes: PropertyChange<this>[] = (Object.keys(values) as PropertyName<this>[])
+            .map((propertyName) => ({ propertyName, oldValue: this[propertyName], newValue: values[propertyName] }))
+            .filter(({ oldValue, newValue }) => oldValue !== newValue)
+        if (changes.length === 0) return true
+
+        for (const { propertyName, oldValue, newValue } of changes) {
+            if (!this.canChangeProperty(propertyName, oldValue, newValue)) {
+                return false
+            }
+        }
+
+        this.silent = true
+        try {
+            changes.forEach(({ propertyName, newValue }) => (this[propertyName] = newValue))
+        } catch (err) {
+            changes.forEach(({ propertyName, oldValue }) => (this[propertyName] = oldValue))
+            throw err
+        } finally {
+            this.silent = false
+        }
+
+        this.notifyPropertiesChanged(changes)
+        return true
+    }
+
+    canSetProperty<K extends PropertyName<this>>(propertyName: K, value: this[K]): boolean {
+        return this[propertyName] === value || this.canChangeProperty(propertyName, this[propertyName], value)
+    }
+
+    protected canChangeProperty(propertyName: PropertyName<this>, oldValue: any, newValue: any): boolean {
         for (const listener of this.propertyChangingListeners) {
             if (!listener.onPropertyChanging(this, propertyName, oldValue, newValue)) {
                 return false
@@ -60,45 +248,532 @@ class NotifyDataChanging extends NotifyDataChanged implements INotifyDataChangin
         return true
     }
 
-    protected setProperty<T>(propertyName: string, currentValue: T, newValue: T): T {
-        if (currentValue === newValue) return currentValue
+    protected setProperty<K extends PropertyName<this>>(propertyName: K, newValue: this[K], assign: (value: this[K]) => void): boolean {
+        const oldValue = this[propertyName]
+        if (oldValue === newValue) return false
+
+        if (this.silent) {
+            assign(newValue)
+            return true
+        }
 
-        if (!this.canChangeProperty(propertyName, currentValue, newValue)) {
-            return currentValue
+        if (!this.canChangeProperty(propertyName, oldValue, newValue)) {
+            return false
         }
 
-        this.notifyPropertyChanged(propertyName, newValue)
-        return newValue
+        assign(newValue)
+        this.notifyPropertyChanged(propertyName, newValue, oldValue)
+        return true
     }
 }
 
+class PropertyTransaction<T extends NotifyDataChanging> {
+    private values: Partial<Pick<T, PropertyName<T>>> = {}
+    private open: boolean = true
+
+    constructor(readonly owner: T) {}
+
+    get isOpen(): boolean {
+        return this.open
+    }
+
+    set<K extends PropertyName<T>>(propertyName: K, value: T[K]): this {
+        this.ensureOpen()
+        this.values[propertyName] = value
+        return this
+    }
+
+    get<K extends PropertyName<T>>(propertyName: K): T[K] {
+        return propertyName in this.values ? this.values[propertyName] : this.owner[propertyName]
+    }
+
+    commit(): boolean {
+        this.ensureOpen()
+        this.open = false
+        return this.owner.update(this.values)
+    }
+
+    rollback(): void {
+        this.ensureOpen()
+        this.open = false
+        this.values = {}
+    }
+
+    private ensureOpen(): void {
+        if (!this.open) throw new Error("Transaction is already completed")
+    }
+}
+
+class ChangeJournal<T extends NotifyDataChanging> implements IPropertyChangedListener<T> {
+    private undoStack: PropertyChange<T>[][] = []
+    private redoStack: PropertyChange<T>[][] = []
+    private replaying: boolean = false
+
+    constructor(readonly target: T, private limit: number = 100) {
+        target.addPropertyChangedListener(this)
+    }
+
+    get canUndo(): boolean {
+        return this.undoStack.length > 0
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length > 0
+    }
+
+    onPropertyChanged(obj: T, propertyName: PropertyName<T>, newValue: any, oldValue: any): void {
+        this.onPropertiesChanged(obj, [{ propertyName, newValue, oldValue }])
+    }
+
+    onPropertiesChanged(obj: T, changes: PropertyChange<T>[]): void {
+        const recorded = changes.filter(({ propertyName }) => !ComputedProperty.isComputed(obj, propertyName))
+        if (this.replaying || recorded.length === 0) return
+
+        this.undoStack.push(recorded)
+        if (this.undoStack.length > this.limit) this.undoStack.shift()
+        this.redoStack = []
+    }
+
+    undo(): boolean {
+        const changes = this.undoStack[this.undoStack.length - 1]
+        if (!changes || !this.replay(changes, "oldValue")) return false
+        this.redoStack.push(this.undoStack.pop()!)
+        return true
+    }
+
+    redo(): boolean {
+        const changes = this.redoStack[this.redoStack.length - 1]
+        if (!changes || !this.replay(changes, "newValue")) return false
+        this.undoStack.push(this.redoStack.pop()!)
+        return true
+    }
+
+    dispose(): void {
+        this.target.removePropertyChangedListener(this)
+        this.undoStack = []
+        this.redoStack = []
+    }
+
+    private replay(changes: PropertyChange<T>[], side: "oldValue" | "newValue"): boolean {
+        const values: Partial<Pick<T, PropertyName<T>>> = {}
+        changes.forEach((change) => (values[change.propertyName] = change[side]))
+
+        this.replaying = true
+        try {
+            return this.target.update(values)
+        } finally {
+            this.replaying = false
+        }
+    }
+}
+
+const observable = <C extends new (...args: any[]) => NotifyDataChanging>(target: C, context: ClassDecoratorContext<C>): C => {
+    return class extends target {
+        constructor(...args: any[]) {
+            super(...args)
+            return NotifyDataChanging.observe(this)
+        }
+    }
+}
+
+const computed = <This extends NotifyDataChanged, V>(getter: (this: This) => V, context: ClassGetterDecoratorContext<This, V> & { name: PropertyName<This> }): ((this: This) => V) => {
+    const name = context.name
+    context.addInitializer(function () {
+        ComputedProperty.declare(this, name)
+    })
+    return function (this: This): V {
+        return NotifyDataChanged.computedValue(this, name, getter) as V
+    }
+}
+
+@observable
 class User extends NotifyDataChanging {
-    private _name: string = ""
-    private _age: number = 0
+    name: string = ""
+    age: number = 0
+
+    @computed
+    get isAdult(): boolean {
+        return this.age >= 18
+    }
+
+    @computed
+    get displayName(): string {
+        return this.name ? `${this.name}${this.isAdult ? "" : " (minor)"}, ${this.age}` : "Anonymous"
+    }
+}
+
+enum BindingMode {
+    OneWay,
+    TwoWay,
+    OneTime,
+}
+
+interface IValueConverter<S = any, T = any> {
+    convert(value: S): T
+    convertBack?(value: T): S
+}
 
-    get name(): string {
-        return this._name
+class Binding<S extends NotifyDataChanging, T extends NotifyDataChanging, KS extends PropertyName<S>, KT extends PropertyName<T>>
+    implements IPropertyChangedListener, IPropertyChangingListener
+{
+    private updating: boolean = false
+    private checking: boolean = false
+    private active: boolean = false
+
+    constructor(source: S, sourceProperty: KS, target: T, targetProperty: KT & PropertyNameOfType<T, S[KS]>, mode?: BindingMode)
+    constructor(source: S, sourceProperty: KS, target: T, targetProperty: KT, mode: BindingMode, converter: IValueConverter<S[KS], T[KT]>)
+    constructor(
+        readonly source: S,
+        readonly sourceProperty: KS,
+        readonly target: T,
+        readonly targetProperty: KT,
+        readonly mode: BindingMode = BindingMode.OneWay,
+        private converter: IValueConverter<S[KS], T[KT]> = Binding.identity() as IValueConverter<S[KS], T[KT]>
+    ) {
+        if (mode === BindingMode.TwoWay && !converter.convertBack) {
+            throw new Error(`Two-way binding ${sourceProperty} <-> ${targetProperty} requires convertBack`)
+        }
+
+        this.updateTarget(source[sourceProperty])
+        if (mode === BindingMode.OneTime) return
+
+        this.active = true
+        source.addPropertyChangingListener(this)
+        source.addPropertyChangedListener(this)
+        if (mode === BindingMode.TwoWay) {
+            target.addPropertyChangingListener(this)
+            target.addPropertyChangedListener(this)
+        }
     }
-    set name(value: string) {
-        this._name = this.setProperty("name", this._name, value)
+
+    get isActive(): boolean {
+        return this.active
     }
 
-    get age(): number {
-        return this._age
+    onPropertyChanging(obj: any, propertyName: string, oldValue: any, newValue: any): boolean {
+        if (this.updating || this.checking) return true
+
+        this.checking = true
+        try {
+            if (obj === this.source && propertyName === this.sourceProperty) return this.target.canSetProperty(this.targetProperty, this.toTarget(newValue))
+            if (obj === this.target && propertyName === this.targetProperty) return this.source.canSetProperty(this.sourceProperty, this.toSource(newValue))
+            return true
+        } finally {
+            this.checking = false
+        }
+    }
+
+    onPropertyChanged(obj: any, propertyName: string, newValue: any): void {
+        if (this.updating) return
+        if (obj === this.source && propertyName === this.sourceProperty) this.updateTarget(newValue)
+        else if (obj === this.target && propertyName === this.targetProperty) this.updateSource(newValue)
     }
-    set age(value: number) {
-        this._age = this.setProperty("age", this._age, value)
+
+    dispose(): void {
+        if (!this.active) return
+        this.active = false
+        this.source.removePropertyChangingListener(this)
+        this.source.removePropertyChangedListener(this)
+        this.target.removePropertyChangingListener(this)
+        this.target.removePropertyChangedListener(this)
+    }
+
+    private static identity(): IValueConverter<unknown, unknown> {
+        return { convert: (value) => value, convertBack: (value) => value }
+    }
+
+    private toTarget(value: S[KS]): T[KT] {
+        return this.converter.convert(value)
+    }
+
+    private toSource(value: T[KT]): S[KS] {
+        if (!this.converter.convertBack) throw new Error(`Binding ${this.sourceProperty} <- ${this.targetProperty} has no convertBack`)
+        return this.converter.convertBack(value)
+    }
+
+    private updateTarget(value: S[KS]): void {
+        this.apply(() => (this.target[this.targetProperty] = this.toTarget(value)))
+    }
+
+    private updateSource(value: T[KT]): void {
+        this.apply(() => (this.source[this.sourceProperty] = this.toSource(value)))
+    }
+
+    private apply(update: () => void): void {
+        this.updating = true
+        try {
+            update()
+        } finally {
+            this.updating = false
+        }
+    }
+}
+
+enum CollectionAction {
+    Add,
+    Remove,
+    Replace,
+    Move,
+    Reset,
+}
+
+type CollectionChange<T, K> = {
+    action: CollectionAction
+    key?: K
+    oldKey?: K
+    newItems: T[]
+    oldItems: T[]
+}
+
+interface ICollectionChangedListener<T = any, K = any> {
+    onCollectionChanged(collection: ObservableCollection<T, K>, change: CollectionChange<T, K>): void
+    onItemPropertyChanged?(collection: ObservableCollection<T, K>, item: T, propertyName: string, newValue: any, oldValue: any): void
+}
+
+interface ICollectionChangingListener<T = any, K = any> {
+    onCollectionChanging(collection: ObservableCollection<T, K>, change: CollectionChange<T, K>): boolean
+}
+
+abstract class ObservableCollection<T, K> {
+    private changedListeners: ICollectionChangedListener<T, K>[] = []
+    private changingListeners: ICollectionChangingListener<T, K>[] = []
+    private subscriptions = new Map<NotifyDataChanged, number>()
+    private batchDepth: number = 0
+    private batchSnapshot: T[] = []
+    private batchChanged: boolean = false
+
+    private readonly itemListener: IPropertyChangedListener = {
+        onPropertyChanged: (item, propertyName, newValue, oldValue) => {
+            this.changedListeners.forEach((listener) => listener.onItemPropertyChanged?.(this, item, propertyName, newValue, oldValue))
+        },
+    }
+
+    abstract get size(): number
+
+    abstract toArray(): T[]
+
+    addCollectionChangedListener(listener: ICollectionChangedListener<T, K>): void {
+        this.changedListeners.push(listener)
+    }
+
+    removeCollectionChangedListener(listener: ICollectionChangedListener<T, K>): void {
+        const index = this.changedListeners.indexOf(listener)
+        if (index !== -1) {
+            this.changedListeners.splice(index, 1)
+        }
+    }
+
+    addCollectionChangingListener(listener: ICollectionChangingListener<T, K>): void {
+        this.changingListeners.push(listener)
+    }
+
+    removeCollectionChangingListener(listener: ICollectionChangingListener<T, K>): void {
+        const index = this.changingListeners.indexOf(listener)
+        if (index !== -1) {
+            this.changingListeners.splice(index, 1)
+        }
+    }
+
+    batch(update: () => void): void {
+        if (this.batchDepth === 0) {
+            this.batchSnapshot = this.toArray()
+            this.batchChanged = false
+        }
+
+        this.batchDepth++
+        try {
+            update()
+        } finally {
+            this.batchDepth--
+            if (this.batchDepth === 0 && this.batchChanged) {
+                this.notify({ action: CollectionAction.Reset, newItems: this.toArray(), oldItems: this.batchSnapshot })
+            }
+        }
+    }
+
+    protected change(change: CollectionChange<T, K>, apply: () => void): boolean {
+        for (const listener of this.changingListeners) {
+            if (!listener.onCollectionChanging(this, change)) {
+                return false
+            }
+        }
+
+        apply()
+        change.oldItems.forEach((item) => this.unsubscribe(item))
+        change.newItems.forEach((item) => this.subscribe(item))
+
+        if (this.batchDepth > 0) this.batchChanged = true
+        else this.notify(change)
+        return true
+    }
+
+    private notify(change: CollectionChange<T, K>): void {
+        this.changedListeners.forEach((listener) => listener.onCollectionChanged(this, change))
+    }
+
+    private subscribe(item: T): void {
+        if (!(item instanceof NotifyDataChanged)) return
+        const count = this.subscriptions.get(item) ?? 0
+        if (count === 0) item.addPropertyChangedListener(this.itemListener)
+        this.subscriptions.set(item, count + 1)
+    }
+
+    private unsubscribe(item: T): void {
+        if (!(item instanceof NotifyDataChanged)) return
+        const count = this.subscriptions.get(item) ?? 0
+        if (count <= 1) {
+            item.removePropertyChangedListener(this.itemListener)
+            this.subscriptions.delete(item)
+        } else {
+            this.subscriptions.set(item, count - 1)
+        }
+    }
+}
+
+class ObservableList<T> extends ObservableCollection<T, number> {
+    private items: T[]
+
+    constructor(items: T[] = []) {
+        super()
+        this.items = []
+        this.reset(items)
+    }
+
+    get size(): number {
+        return this.items.length
+    }
+
+    toArray(): T[] {
+        return [...this.items]
+    }
+
+    get(index: number): T {
+        this.checkIndex(index, this.items.length - 1)
+        return this.items[index]
+    }
+
+    indexOf(item: T): number {
+        return this.items.indexOf(item)
+    }
+
+    forEach(callback: (item: T, index: number) => void): void {
+        this.toArray().forEach(callback)
+    }
+
+    add(item: T): boolean {
+        return this.insert(this.items.length, item)
+    }
+
+    insert(index: number, item: T): boolean {
+        this.checkIndex(index, this.items.length)
+        return this.change({ action: CollectionAction.Add, key: index, newItems: [item], oldItems: [] }, () => this.items.splice(index, 0, item))
+    }
+
+    remove(item: T): boolean {
+        const index = this.items.indexOf(item)
+        return index !== -1 && this.removeAt(index)
+    }
+
+    removeAt(index: number): boolean {
+        this.checkIndex(index, this.items.length - 1)
+        return this.change({ action: CollectionAction.Remove, key: index, newItems: [], oldItems: [this.items[index]] }, () => this.items.splice(index, 1))
+    }
+
+    set(index: number, item: T): boolean {
+        this.checkIndex(index, this.items.length - 1)
+        if (this.items[index] === item) return false
+        return this.change({ action: CollectionAction.Replace, key: index, newItems: [item], oldItems: [this.items[index]] }, () => (this.items[index] = item))
+    }
+
+    move(from: number, to: number): boolean {
+        this.checkIndex(from, this.items.length - 1)
+        this.checkIndex(to, this.items.length - 1)
+        if (from === to) return false
+
+        const item = this.items[from]
+        return this.change({ action: CollectionAction.Move, key: to, oldKey: from, newItems: [item], oldItems: [item] }, () => {
+            this.items.splice(from, 1)
+            this.items.splice(to, 0, item)
+        })
+    }
+
+    clear(): boolean {
+        return this.reset([])
+    }
+
+    reset(items: T[]): boolean {
+        const next = [...items]
+        return this.change({ action: CollectionAction.Reset, newItems: next, oldItems: this.toArray() }, () => (this.items = next))
+    }
+
+    private checkIndex(index: number, max: number): void {
+        if (!Number.isInteger(index) || index < 0 || index > max) {
+            throw new RangeError(`Index ${index} is out of range [0, ${max}]`)
+        }
+    }
+}
+
+class ObservableMap<K, V> extends ObservableCollection<V, K> {
+    private entriesMap = new Map<K, V>()
+
+    constructor(entries: [K, V][] = []) {
+        super()
+        this.batch(() => entries.forEach(([key, value]) => this.set(key, value)))
+    }
+
+    get size(): number {
+        return this.entriesMap.size
+    }
+
+    toArray(): V[] {
+        return Array.from(this.entriesMap.values())
+    }
+
+    keys(): K[] {
+        return Array.from(this.entriesMap.keys())
+    }
+
+    entries(): [K, V][] {
+        return Array.from(this.entriesMap.entries())
+    }
+
+    has(key: K): boolean {
+        return this.entriesMap.has(key)
+    }
+
+    get(key: K): V | undefined {
+        return this.entriesMap.get(key)
+    }
+
+    set(key: K, value: V): boolean {
+        if (!this.entriesMap.has(key)) {
+            return this.change({ action: CollectionAction.Add, key, newItems: [value], oldItems: [] }, () => this.entriesMap.set(key, value))
+        }
+
+        const current = this.entriesMap.get(key) as V
+        if (current === value) return false
+        return this.change({ action: CollectionAction.Replace, key, newItems: [value], oldItems: [current] }, () => this.entriesMap.set(key, value))
+    }
+
+    delete(key: K): boolean {
+        if (!this.entriesMap.has(key)) return false
+        return this.change({ action: CollectionAction.Remove, key, newItems: [], oldItems: [this.entriesMap.get(key) as V] }, () => this.entriesMap.delete(key))
+    }
+
+    clear(): boolean {
+        if (this.entriesMap.size === 0) return false
+        return this.change({ action: CollectionAction.Reset, newItems: [], oldItems: this.toArray() }, () => this.entriesMap.clear())
     }
 }
 
 class LogListener implements IPropertyChangedListener<User> {
-    onPropertyChanged(obj: User, propertyName: string, newValue: any): void {
-        console.log(`Changed ${propertyName} from ${obj[propertyName]} to ${newValue}`)
+    onPropertyChanged(obj: User, propertyName: PropertyName<User>, newValue: any, oldValue: any): void {
+        console.log(`Changed ${propertyName} from ${oldValue} to ${newValue}`)
     }
 }
 
 class AgeValidator implements IPropertyChangingListener<User> {
-    onPropertyChanging(obj: User, propertyName: string, oldValue: any, newValue: any): boolean {
+    onPropertyChanging(obj: User, propertyName: PropertyName<User>, oldValue: any, newValue: any): boolean {
         if (propertyName === "age" && (newValue < 0 || newValue > 100)) {
             console.log(`Invalid age: ${newValue}`)
             return false
@@ -107,6 +782,13 @@ class AgeValidator implements IPropertyChangingListener<User> {
     }
 }
 
+@observable
+class UserForm extends NotifyDataChanging {
+    title: string = ""
+    fullName: string = ""
+    ageText: string = ""
+}
+
 const demonstrateee = (): void => {
     const user = new User()
     const logger = new LogListener()
@@ -120,6 +802,102 @@ const demonstrateee = (): void => {
     user.age = 25
     user.age = 150
     console.log(`Users name is ${user.name}, age is ${user.age}`)
+
+    user.age = 16
+    console.log(`Display name is ${user.displayName}`)
+
+    @observable
+    class Loop extends NotifyDataChanging {
+        seed: number = 1
+
+        @computed
+        get left(): number {
+            return this.seed > 0 ? this.right + 1 : 0
+        }
+
+        @computed
+        get right(): number {
+            return this.left + 1
+        }
+    }
+
+    try {
+        new Loop()
+    } catch (err) {
+        console.log(err.message)
+    }
+
+    const form = new UserForm()
+    const ageConverter: IValueConverter<number, string> = { convert: (age) => String(age), convertBack: (text) => Number(text) }
+    const bindings = [
+        new Binding(user, "displayName", form, "title", BindingMode.OneTime),
+        new Binding(user, "name", form, "fullName", BindingMode.TwoWay),
+        new Binding(user, "age", form, "ageText", BindingMode.TwoWay, ageConverter),
+    ]
+
+    form.fullName = "Johnny"
+    form.ageText = "42"
+    form.ageText = "-5"
+    user.age = 30
+    console.log(`Form shows "${form.title}": ${form.fullName}, ${form.ageText}; user is ${user.displayName}`)
+
+    bindings.forEach((binding) => binding.dispose())
+    form.fullName = "Detached"
+    console.log(`After dispose user name is ${user.name}`)
+
+    const team = new ObservableList<User>()
+    team.addCollectionChangingListener({
+        onCollectionChanging: (collection, change) => {
+            const minor = change.newItems.find((member) => !member.isAdult)
+            if (minor) console.log(`Rejected ${CollectionAction[change.action]}: ${minor.displayName} is a minor`)
+            return !minor
+        },
+    })
+    team.addCollectionChangedListener({
+        onCollectionChanged: (collection, change) =>
+            console.log(`Team ${CollectionAction[change.action]} at ${change.key ?? "-"}: +[${change.newItems.map((member) => member.name)}] -[${change.oldItems.map((member) => member.name)}]`),
+        onItemPropertyChanged: (collection, member, propertyName, newValue, oldValue) => console.log(`Team member ${propertyName} changed from ${oldValue} to ${newValue}`),
+    })
+
+    const createUser = (name: string, age: number): User => Object.assign(new User(), { name, age })
+    const anna = createUser("Anna", 34)
+    team.add(user)
+    team.add(anna)
+    team.add(createUser("Tim", 12))
+    team.move(1, 0)
+    anna.age = 35
+    team.batch(() => {
+        team.add(createUser("Olga", 51))
+        team.add(createUser("Ivan", 28))
+        team.removeAt(1)
+    })
+    team.remove(user)
+    user.age = 31
+
+    const roles = new ObservableMap<string, string>([["anna", "admin"]])
+    roles.addCollectionChangedListener({ onCollectionChanged: (collection, change) => console.log(`Roles ${CollectionAction[change.action]} ${change.key}: ${change.newItems}`) })
+    roles.set("olga", "editor")
+    roles.set("anna", "owner")
+    roles.delete("olga")
+
+    const editor = createUser("Maria", 27)
+    const history = new ChangeJournal(editor)
+    editor.addPropertyChangedListener({
+        onPropertyChanged: () => {},
+        onPropertiesChanged: (obj, changes) => console.log(`Committed ${changes.map((change) => `${change.propertyName}: ${change.oldValue} -> ${change.newValue}`).join(", ")}`),
+    })
+    editor.addPropertyChangingListener(validator)
+
+    editor.beginTransaction().set("name", "Maria Petrova").set("age", 28).commit()
+    const rejected = editor.beginTransaction().set("name", "Nobody").set("age", 150)
+    console.log(`Second transaction committed: ${rejected.commit()}, name is still ${editor.name}`)
+    editor.update({ age: 29 })
+
+    history.undo()
+    history.undo()
+    console.log(`After two undos: ${editor.displayName}`)
+    history.redo()
+    console.log(`After redo: ${editor.displayName}, can redo again: ${history.canRedo}`)
 }
 
 demonstrateee()
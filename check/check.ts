@@ -0,0 +1,31 @@
+type CheckSuite = { [name: string]: () => void | Promise<void> }
+
+const describe = (error: unknown): string => (error instanceof Error ? error.message : String(error))
+
+export const verify = (condition: boolean, message: string): void => {
+    if (!condition) throw new Error(message)
+}
+
+export const verifyThrows = (action: () => unknown, message: string): Error => {
+    try {
+        action()
+    } catch (error) {
+        return error instanceof Error ? error : new Error(String(error))
+    }
+    throw new Error(message)
+}
+
+export const runChecks = async (suite: string, checks: CheckSuite): Promise<void> => {
+    const names = Object.keys(checks)
+    let passed = 0
+    for (const name of names) {
+        try {
+            await checks[name]()
+            passed++
+        } catch (error) {
+            console.error(`[${suite}] FAILED ${name}: ${describe(error)}`)
+        }
+    }
+    console.log(`[${suite}] ${passed}/${names.length} checks passed`)
+    if (passed !== names.length) process.exitCode = 1
+}
@@ -0,0 +1,27 @@
+type LabChecks = { runLabChecks: () => Promise<void> }
+
+const labs: { [lab: string]: () => Promise<LabChecks> } = {
+    "1": () => import("../1/1.check"),
+    "2": () => import("../2/2.check"),
+    "3": () => import("../3/3.check"),
+}
+
+const main = async (selected: string[]): Promise<void> => {
+    const unknown = selected.filter((lab) => !(lab in labs))
+    if (unknown.length > 0) throw new Error(`Unknown lab: ${unknown.join(", ")}. Available: ${Object.keys(labs).join(", ")}`)
+
+    for (const lab of selected.length > 0 ? selected : Object.keys(labs)) {
+        try {
+            const { runLabChecks } = await labs[lab]()
+            await runLabChecks()
+        } catch (error) {
+            console.error(`[lab ${lab}] checks could not run: ${error instanceof Error ? error.message : error}`)
+            process.exitCode = 1
+        }
+    }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+})